@@ -2,17 +2,23 @@ import eslint from '@rollup/plugin-eslint';
 import nodeResolve from '@rollup/plugin-node-resolve';
 import typescript from 'rollup-plugin-typescript2';
 
-export default {
-  input: 'src/vue-gl-troika-text.ts',
+/** The builds for Vue 2, and for Vue 3 and the composition API of Vue 2.7. */
+const entries = ['vue-gl-troika-text', 'vue-gl-troika-text-vue3'];
+
+export default entries.map((entry) => ({
+  input: `src/${entry}.ts`,
   output: {
     format: 'es',
-    file: 'dist/vue-gl-troika-text.mjs'
+    file: `dist/${entry}.mjs`
   },
   plugins: [
     eslint(),
     nodeResolve({
       resolveOnly: [ './src/**/*' ]
     }),
-    typescript()
+    typescript({
+      // The specs aren't part of the build, and would nest the declarations in `dist/src`.
+      tsconfigOverride: { exclude: ['node_modules', 'tests'] }
+    })
   ]
-};
\ No newline at end of file
+}));
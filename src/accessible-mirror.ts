@@ -0,0 +1,80 @@
+import { Camera, Matrix4, Vector2, Vector3 } from 'three'
+import { Text, TroikaTextRenderInfo } from 'troika-three-text'
+import { TextIntersection, getOrientationMatrix } from './hit-testing'
+
+/** The content and attributes of the DOM mirror of a text. */
+export interface MirrorOptions {
+  text: string
+  /** 'auto', 'ltr' or 'rtl'. */
+  direction: string
+  ariaLabel: string | null
+  role: string | null
+  /** Whether the mirror can get the keyboard focus, when the text reacts to pointer events. */
+  focusable: boolean
+}
+
+/** The keys activating a focused mirror, as they would a button. */
+const activationKeys = ['Enter', ' ']
+
+const tempMat4a = new Matrix4()
+const tempMat4b = new Matrix4()
+const tempVec3 = new Vector3()
+
+/**
+ * Creates an element that is visually hidden, but still read by screen readers, found by the
+ * find-in-page of the browser and translated by translation tools.
+ */
+export function createMirror(): HTMLElement {
+  const element = document.createElement('div')
+  Object.assign(element.style, {
+    position: 'absolute',
+    width: '1px',
+    height: '1px',
+    margin: '-1px',
+    padding: '0',
+    border: '0',
+    overflow: 'hidden',
+    clip: 'rect(0 0 0 0)',
+    clipPath: 'inset(50%)',
+    whiteSpace: 'pre-wrap'
+  })
+  return element
+}
+
+function setAttribute(element: HTMLElement, name: string, value: string | null): void {
+  if (value == null) element.removeAttribute(name)
+  else element.setAttribute(name, value)
+}
+
+/** Updates the content and the attributes of a mirror, only touching what changed. */
+export function updateMirror(element: HTMLElement, { text, direction, ariaLabel, role, focusable }: MirrorOptions): void {
+  if (element.textContent !== text) element.textContent = text
+  element.dir = direction
+  setAttribute(element, 'aria-label', ariaLabel)
+  setAttribute(element, 'role', role)
+  setAttribute(element, 'tabindex', focusable ? '0' : null)
+}
+
+/**
+ * Whether a key pressed on a focused mirror activates it. Activation clicks the mirror, so that
+ * keyboards and assistive technologies activating it by a click are handled alike.
+ */
+export function isActivationKey(event: KeyboardEvent): boolean {
+  return activationKeys.includes(event.key) && !event.repeat
+}
+
+/**
+ * The center of the text block of an instance, standing for the position of the pointer in the
+ * events of its mirror. The `curveRadius` and `orientation` are applied as to the glyphs.
+ */
+export function getBlockCenter(text: Text, textRenderInfo: TroikaTextRenderInfo, camera?: Camera): TextIntersection {
+  const [minX, minY, maxX, maxY] = textRenderInfo.blockBounds
+  const textCoords = new Vector2((minX + maxX) / 2, (minY + maxY) / 2)
+  const { curveRadius } = text
+  const point = curveRadius
+    ? new Vector3(Math.sin(textCoords.x / curveRadius) * curveRadius, textCoords.y, curveRadius - Math.cos(textCoords.x / curveRadius) * curveRadius)
+    : new Vector3(textCoords.x, textCoords.y, 0)
+  point.applyMatrix4(tempMat4a.multiplyMatrices(text.matrixWorld, getOrientationMatrix(text.orientation, tempMat4b)))
+  const distance = camera ? point.distanceTo(tempVec3.setFromMatrixPosition(camera.matrixWorld)) : 0
+  return { distance, point, textCoords }
+}
@@ -0,0 +1,35 @@
+declare module 'bidi-js' {
+  /**
+   * Result of `getEmbeddingLevels`
+   */
+  export type EmbeddingLevels = {
+    /** The resolved embedding level of each character; odd levels are right-to-left. */
+    levels: Uint8Array
+    /** The range and base level of each paragraph in the string. */
+    paragraphs: Array<{ start: number, end: number, level: number }>
+  }
+
+  export type Bidi = {
+    /**
+     * Resolves the embedding levels of a string by the Unicode Bidirectional Algorithm.
+     * @param explicitDirection - "ltr" or "rtl" to force the base direction instead of
+     *        auto-detecting it from the content.
+     */
+    getEmbeddingLevels(string: string, explicitDirection?: 'ltr' | 'rtl'): EmbeddingLevels
+
+    /**
+     * Returns the `[start, end]` (inclusive) ranges of characters to reverse in order, one after
+     * another, to put a line of the string in visual order.
+     */
+    getReorderSegments(string: string, embeddingLevels: EmbeddingLevels, start?: number, end?: number): Array<[number, number]>
+
+    /** Returns the mirrored counterpart of a character, such as `)` for `(`, or null if none. */
+    getMirroredCharacter(char: string): string | null
+  }
+
+  /**
+   * Creates the `bidi` object. The module exports this factory so that its code can be passed
+   * to a web worker.
+   */
+  export default function bidiFactory(): Bidi
+}
@@ -0,0 +1,87 @@
+import { Camera, Material, Matrix4, Object3D, OrthographicCamera, PerspectiveCamera, Quaternion, Scene, Vector2, Vector3, WebGLRenderer } from 'three'
+import { getOrientationMatrix } from './hit-testing'
+
+/** The props controlling how a text faces the camera and keeps its size on screen. */
+export interface BillboardOptions {
+  /** 'none', 'full' or 'y-axis'. */
+  billboard: string
+  /** The height of the `fontSize` on screen in pixels, or null to keep the world scale. */
+  screenSize: number | null
+  fontSize: number
+  orientation: string
+}
+
+const position = new Vector3()
+const quaternion = new Quaternion()
+const scale = new Vector3()
+const direction = new Vector3()
+const orientationQuaternion = new Quaternion()
+const yAxis = new Vector3(0, 1, 0)
+const tempMat4 = new Matrix4()
+const viewportSize = new Vector2()
+
+/**
+ * The number of world units a CSS pixel of the renderer spans at a position seen through a
+ * camera, or NaN if the camera's projection is unknown.
+ */
+function getPixelSize(camera: Camera, renderer: WebGLRenderer, at: Vector3): number {
+  const { y: height } = renderer.getSize(viewportSize)
+  if ((camera as OrthographicCamera).isOrthographicCamera) {
+    const { top, bottom, zoom } = camera as OrthographicCamera
+    return (top - bottom) / zoom / height
+  }
+  if ((camera as PerspectiveCamera).isPerspectiveCamera) {
+    const { fov, zoom } = camera as PerspectiveCamera
+    const depth = -direction.copy(at).applyMatrix4(camera.matrixWorldInverse).z
+    return 2 * depth * Math.tan(fov * Math.PI / 360) / zoom / height
+  }
+  return NaN
+}
+
+/**
+ * Overrides the world matrix of an object so that it faces the camera and keeps its size on
+ * screen, and updates the world matrices of its descendants. The transform is recomputed from
+ * the local matrix of the object, so it can be applied any number of times per frame, and is
+ * undone by the next `updateMatrixWorld` of the scene.
+ *
+ * Perspective cameras are faced by turning toward their position, and orthographic ones by
+ * turning against their view direction, which is the same for every object.
+ */
+export function applyBillboard(object: Object3D, camera: Camera, renderer: WebGLRenderer, options: BillboardOptions): void {
+  const { billboard, screenSize, fontSize, orientation } = options
+  if (billboard === 'none' && screenSize == null) return
+  if (object.matrixAutoUpdate) object.updateMatrix()
+  const matrix = object.parent ? tempMat4.multiplyMatrices(object.parent.matrixWorld, object.matrix) : tempMat4.copy(object.matrix)
+  matrix.decompose(position, quaternion, scale)
+
+  if (billboard === 'full' || billboard === 'y-axis') {
+    if (billboard === 'full') {
+      camera.getWorldQuaternion(quaternion)
+    } else {
+      if ((camera as OrthographicCamera).isOrthographicCamera) camera.getWorldDirection(direction).negate()
+      else direction.setFromMatrixPosition(camera.matrixWorld).sub(position)
+      quaternion.setFromAxisAngle(yAxis, Math.atan2(direction.x, direction.z))
+    }
+    // The text plane of the `orientation` is the one turned toward the camera.
+    quaternion.multiply(orientationQuaternion.setFromRotationMatrix(getOrientationMatrix(orientation, tempMat4)).inverse())
+  }
+  if (screenSize != null) {
+    const pixelSize = getPixelSize(camera, renderer, position)
+    if (pixelSize > 0) scale.setScalar(screenSize * pixelSize / fontSize)
+  }
+
+  object.matrixWorld.compose(position, quaternion, scale)
+  object.children.forEach((child) => child.updateMatrixWorld(true))
+}
+
+/**
+ * Makes an object call a function with the camera, the renderer, the scene and the material
+ * about to be drawn before each time it is rendered.
+ */
+export function hookBeforeRender(object: Object3D, hook: (camera: Camera, renderer: WebGLRenderer, scene: Scene, material: Material) => void): void {
+  const { onBeforeRender } = object
+  object.onBeforeRender = (renderer, scene, camera, geometry, material, group) => {
+    hook(camera, renderer, scene, material)
+    onBeforeRender.call(object, renderer, scene, camera, geometry, material, group)
+  }
+}
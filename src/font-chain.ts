@@ -0,0 +1,98 @@
+import { MarkupRun } from './markup'
+
+/** An entry of a font fallback chain, restricted to some characters. */
+export interface FontChainEntry {
+  /** The URL of the font, or the name of a font registered by VglTroikaFont. */
+  font: string
+  /**
+   * The characters covered by the font, in the syntax of the CSS `unicode-range` descriptor,
+   * e.g. `'U+0600-06FF, U+0750-077F'`.
+   */
+  unicodeRange?: string
+  /**
+   * The scripts covered by the font, as Unicode script names or codes, e.g. `'Arabic'` or
+   * `['Hani', 'Hira', 'Kana']`.
+   */
+  script?: string | string[]
+}
+
+/**
+ * A font fallback chain. Each character gets the first font of the chain covering it. Fonts
+ * given as plain strings, or without `unicodeRange` and `script`, cover every character.
+ */
+export type FontChain = (string | FontChainEntry)[]
+
+interface FontMatcher {
+  font: string
+  /** Whether the font covers a code point. */
+  covers(codePoint: number, char: string): boolean
+}
+
+/** Parses a CSS `unicode-range` value into inclusive code point ranges. */
+export function parseUnicodeRange(unicodeRange: string): [number, number][] {
+  return unicodeRange.split(',').map((range) => {
+    const match = range.trim().match(/^u\+([0-9a-f?]{1,6})(?:-([0-9a-f]{1,6}))?$/i)
+    if (!match) throw new Error(`Invalid unicode range: ${range.trim()}`)
+    const [, start, end] = match
+    if (end) return [parseInt(start, 16), parseInt(end, 16)]
+    return [parseInt(start.replace(/\?/g, '0'), 16), parseInt(start.replace(/\?/g, 'f'), 16)]
+  })
+}
+
+/** Creates a pattern matching the characters of some scripts, including shared characters. */
+export function createScriptPattern(scripts: string[]): RegExp {
+  return new RegExp(`^[${scripts.map((script) => `\\p{Script_Extensions=${script}}`).join('')}]$`, 'u')
+}
+
+function createMatcher(entry: string | FontChainEntry): FontMatcher {
+  if (typeof entry === 'string') return { font: entry, covers: () => true }
+  const { font, unicodeRange, script } = entry
+  const ranges = unicodeRange ? parseUnicodeRange(unicodeRange) : null
+  const pattern = script ? createScriptPattern(Array.isArray(script) ? script : [script]) : null
+  return {
+    font,
+    covers(codePoint, char) {
+      if (!ranges && !pattern) return true
+      return (!!ranges && ranges.some(([start, end]) => codePoint >= start && codePoint <= end)) ||
+        (!!pattern && pattern.test(char))
+    }
+  }
+}
+
+/** Characters which take the font of the character before them, so that they don't split runs. */
+const attachedPattern = /^[\s\p{M}\u200c\u200d]$/u
+
+/**
+ * Splits runs where the font of the chain covering their characters changes, setting the `font`
+ * of their style. Runs that already have a font keep it. Characters covered by no font of the
+ * chain get no font, leaving them to the `font` of the text.
+ */
+export function splitRunsByFont(runs: MarkupRun[], chain: FontChain): MarkupRun[] {
+  const matchers = chain.map(createMatcher)
+  const split: MarkupRun[] = []
+  runs.forEach((run) => {
+    if (run.style.font !== undefined) {
+      split.push(run)
+      return
+    }
+    let current: MarkupRun | null = null
+    let offset = 0
+    for (const char of run.text) {
+      const codePoint = char.codePointAt(0) as number
+      let font: string | undefined
+      if (current && attachedPattern.test(char)) {
+        font = current.style.font
+      } else {
+        const matcher = matchers.find(({ covers }) => covers(codePoint, char))
+        font = matcher && matcher.font
+      }
+      if (!current || font !== current.style.font) {
+        current = { start: run.start + offset, text: '', style: font === undefined ? run.style : { ...run.style, font } }
+        split.push(current)
+      }
+      current.text += char
+      offset += char.length
+    }
+  })
+  return split
+}
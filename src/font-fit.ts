@@ -0,0 +1,82 @@
+/** The props controlling how the font size is fitted to a box. */
+export interface FitOptions {
+  /** 'shrink', 'grow' or 'both'. */
+  fit: string
+  fontSize: number
+  minFontSize: number
+  maxFontSize: number
+  fitWidth: number | null
+  fitHeight: number | null
+}
+
+/** The state of the search for the font size fitting a box, kept across the syncs it takes. */
+export interface FitSearch {
+  /** The largest size laid out that fits the box, or null if none did yet. */
+  fitting: number | null
+  /** The smallest size laid out that overflows the box, or null if none did yet. */
+  overflowing: number | null
+  /** The size the search ended on, laid out by the last sync it requests. */
+  settled: number | null
+  steps: number
+}
+
+/** The relative precision the search stops at. */
+const tolerance = 0.01
+
+/** Ends a search that fails to converge, as wrapping can make the fitting sizes discontinuous. */
+const maxSteps = 12
+
+/** The font sizes the `fit` mode allows, as `[lower, upper]`. */
+export function getFitRange({ fit, fontSize, minFontSize, maxFontSize }: FitOptions): [number, number] {
+  const lower = fit === 'grow' ? Math.max(fontSize, minFontSize) : minFontSize
+  const upper = fit === 'shrink' ? Math.min(fontSize, maxFontSize) : maxFontSize
+  return [lower, Math.max(lower, upper)]
+}
+
+export function createFitSearch(): FitSearch {
+  return { fitting: null, overflowing: null, settled: null, steps: 0 }
+}
+
+/**
+ * Takes a step of the search for the largest font size within the range of the `fit` mode whose
+ * block fits the box, given the `blockBounds` of the text laid out at `size`. Returns the size to
+ * lay out the text at next, or null once the search has ended on `size`.
+ *
+ * The next size is estimated by scaling `size` by the room left in the box until a fitting and an
+ * overflowing size are known, and then bisected between them, since line wrapping and rounding
+ * of line heights make the block size only roughly proportional to the font size.
+ */
+export function stepFitSearch(search: FitSearch, size: number, blockBounds: number[], options: FitOptions): number | null {
+  const [lower, upper] = getFitRange(options)
+  if (search.settled !== null) return size === search.settled ? null : search.settled
+  if (size < lower || size > upper) return Math.min(upper, Math.max(lower, size))
+
+  const { fitWidth, fitHeight } = options
+  const width = blockBounds[2] - blockBounds[0]
+  const height = blockBounds[3] - blockBounds[1]
+  const ratio = Math.min(
+    fitWidth == null || width <= 0 ? Infinity : fitWidth / width,
+    fitHeight == null || height <= 0 ? Infinity : fitHeight / height
+  )
+  const fits = ratio >= 1 - 1e-6
+  // A size filling the box within the tolerance can't be improved on.
+  if (fits && ratio <= 1 + tolerance) search.settled = size
+  if (search.settled !== null) return null
+  if (fits) search.fitting = Math.max(size, search.fitting === null ? -Infinity : search.fitting)
+  else search.overflowing = Math.min(size, search.overflowing === null ? Infinity : search.overflowing)
+
+  const { fitting, overflowing } = search
+  let next: number | null = null
+  if (++search.steps < maxSteps) {
+    if (fitting !== null && overflowing !== null) {
+      if (overflowing - fitting > fitting * tolerance) next = (fitting + overflowing) / 2
+    } else if (fitting !== null) {
+      const estimate = Math.min(upper, size * ratio)
+      if (Number.isFinite(estimate) && estimate > fitting * (1 + tolerance)) next = estimate
+    } else if (overflowing !== null && overflowing > lower) {
+      next = Math.max(lower, Math.min(size * ratio, overflowing * (1 - tolerance)))
+    }
+  }
+  if (next === null) next = search.settled = fitting === null ? lower : fitting
+  return next === size ? null : next
+}
@@ -0,0 +1,79 @@
+import { VglNamespaceMap } from './vue-gl-types'
+
+/** A font registered by name by a VglTroikaFont component. */
+export interface TroikaFont {
+  /** The URL of the font file. */
+  readonly src: string
+  /** The SDF glyph size the characters were preloaded at, or null for troika's default. */
+  readonly sdfGlyphSize: number | null
+  status: 'loading' | 'loaded' | 'error'
+  /** The reason of the failure when the status is 'error'. */
+  error: Error | null
+  /** Resolved once the font has loaded, failed to load or timed out. */
+  readonly ready: Promise<void>
+  /** Resolved once the font has loaded, even after timing out, and rejected if it failed to. */
+  readonly loaded: Promise<void>
+}
+
+/**
+ * The fonts registered by name in a VglNamespace component, falling back to those of the ancestor
+ * VglNamespace components.
+ */
+export interface FontNamespace {
+  get(name: string): TroikaFont | undefined
+  set(name: string, font: TroikaFont): void
+  /** Deletes the font of the name, only if it is `font`. */
+  delete(name: string, font: TroikaFont): void
+  /** Calls `fn` whenever the font of the name may have changed, here or in an ancestor. */
+  listen(name: string, fn: () => void): void
+  unlisten(name: string, fn: () => void): void
+}
+
+/** The font namespaces, keyed by the `geometries` namespace of their VglNamespace component. */
+const namespaces = new WeakMap<VglNamespaceMap, FontNamespace>()
+
+function createFontNamespace(parent?: FontNamespace): FontNamespace {
+  const fonts = new Map<string, TroikaFont>()
+  const listeners = new Map<string, Set<() => void>>()
+  const emit = (name: string): void => {
+    const fns = listeners.get(name)
+    if (fns) fns.forEach((fn) => fn())
+  }
+  return {
+    get: (name) => (fonts.has(name) ? fonts.get(name) : parent && parent.get(name)),
+    set(name, font) {
+      if (fonts.get(name) === font) return
+      fonts.set(name, font)
+      emit(name)
+    },
+    delete(name, font) {
+      if (fonts.get(name) !== font) return
+      fonts.delete(name)
+      emit(name)
+    },
+    listen(name, fn) {
+      const fns = listeners.get(name) || new Set()
+      listeners.set(name, fns.add(fn))
+      // The fonts of the ancestors show through the names not registered here.
+      if (parent) parent.listen(name, fn)
+    },
+    unlisten(name, fn) {
+      const fns = listeners.get(name)
+      if (fns && fns.delete(fn) && !fns.size) listeners.delete(name)
+      if (parent) parent.unlisten(name, fn)
+    }
+  }
+}
+
+/**
+ * Gets the fonts of a VglNamespace component from its `geometries` namespace. VglNamespace has no
+ * namespace for fonts, so they are kept apart, alongside it, for as long as it lives.
+ */
+export function getFontNamespace(geometries: VglNamespaceMap): FontNamespace {
+  let namespace = namespaces.get(geometries)
+  if (!namespace) {
+    namespace = createFontNamespace(geometries.parent && getFontNamespace(geometries.parent))
+    namespaces.set(geometries, namespace)
+  }
+  return namespace
+}
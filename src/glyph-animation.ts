@@ -0,0 +1,142 @@
+import { BufferGeometry, InstancedBufferAttribute, Material } from 'three'
+import { DerivedMaterial, createDerivedMaterial } from 'troika-three-utils'
+
+/** The effects of the `animation` prop, in the order of their ids in the shader. */
+export const animationEffects = ['typewriter', 'fade', 'slide', 'wave', 'shake']
+
+/**
+ * The number of glyphs each glyph takes the time of to play its part of the effect, so that the
+ * effect sweeps over several glyphs at once. The typewriter reveals them one by one.
+ */
+const effectSpans: { [effect: string]: number } = { typewriter: 0, fade: 4, slide: 4, wave: 4, shake: 0 }
+
+/** The uniforms of an animation material, shared by the instance and its run meshes. */
+export type AnimationUniforms = {
+  /** The id of the effect, starting at 1 for the first of `animationEffects`. */
+  uTroikaAnimEffect: { value: number }
+  /** The progress of the effect from 0 to 1. */
+  uTroikaAnimProgress: { value: number }
+  /** The number of glyphs of the whole text. */
+  uTroikaAnimCount: { value: number }
+  uTroikaAnimSpan: { value: number }
+  /** The distance glyphs are moved by, in local units. */
+  uTroikaAnimAmplitude: { value: number }
+}
+
+export type AnimationMaterial = DerivedMaterial & { readonly isTroikaAnimationMaterial: true, uniforms: AnimationUniforms }
+
+// language=GLSL
+const vertexDefs = `
+uniform int uTroikaAnimEffect;
+uniform float uTroikaAnimProgress;
+uniform float uTroikaAnimCount;
+uniform float uTroikaAnimSpan;
+uniform float uTroikaAnimAmplitude;
+attribute float aTroikaGlyphOrder;
+varying float vTroikaAnimAlpha;
+
+float troikaAnimRandom(float seed) {
+  return fract(sin(seed * 12.9898) * 43758.5453);
+}
+`
+
+// The offsets are added in clip space, after the glyphs are laid out, bent and projected, as the
+// projection is linear before the perspective divide.
+// language=GLSL prefix="void main() {" suffix="}"
+const vertexMainOutro = `
+float glyphProgress = clamp(
+  (uTroikaAnimProgress * (uTroikaAnimCount + uTroikaAnimSpan) - aTroikaGlyphOrder) / max(uTroikaAnimSpan, 1e-4),
+  0.0,
+  1.0
+);
+vec3 animOffset = vec3(0.0);
+vTroikaAnimAlpha = 1.0;
+if (uTroikaAnimEffect == 1) {
+  vTroikaAnimAlpha = step(aTroikaGlyphOrder + 1.0, uTroikaAnimProgress * uTroikaAnimCount + 1e-3);
+} else if (uTroikaAnimEffect == 2) {
+  vTroikaAnimAlpha = glyphProgress;
+} else if (uTroikaAnimEffect == 3) {
+  vTroikaAnimAlpha = glyphProgress;
+  animOffset.y = (smoothstep(0.0, 1.0, glyphProgress) - 1.0) * uTroikaAnimAmplitude;
+} else if (uTroikaAnimEffect == 4) {
+  animOffset.y = sin(glyphProgress * 3.14159265) * uTroikaAnimAmplitude;
+} else if (uTroikaAnimEffect == 5) {
+  float seed = aTroikaGlyphOrder + floor(uTroikaAnimProgress * 40.0) * 97.0;
+  vec2 jitter = vec2(troikaAnimRandom(seed), troikaAnimRandom(seed + 0.5)) * 2.0 - 1.0;
+  animOffset.xy = jitter * (1.0 - uTroikaAnimProgress) * uTroikaAnimAmplitude;
+}
+gl_Position += projectionMatrix * (modelViewMatrix * vec4(uTroikaOrient * animOffset, 0.0));
+`
+
+// language=GLSL
+const fragmentDefs = `
+varying float vTroikaAnimAlpha;
+`
+
+// Applied after troika's own color transform, so that the outline and the stroke fade too.
+// language=GLSL prefix="void main() {" suffix="}"
+const fragmentColorTransform = `
+gl_FragColor.a *= vTroikaAnimAlpha;
+if (gl_FragColor.a == 0.0) {
+  discard;
+}
+`
+
+function createAnimationUniforms(): AnimationUniforms {
+  return {
+    uTroikaAnimEffect: { value: 0 },
+    uTroikaAnimProgress: { value: 1 },
+    uTroikaAnimCount: { value: 0 },
+    uTroikaAnimSpan: { value: 0 },
+    uTroikaAnimAmplitude: { value: 0 }
+  }
+}
+
+/**
+ * Derives a material animating the glyphs of a troika text from the text material troika derived
+ * for it, to be set as the material of the text. The effects are functions of the progress and of
+ * the `aTroikaGlyphOrder` attribute of each glyph, so that playing them doesn't lay out the text
+ * again. Like the text material, it has uniforms of its own.
+ */
+export function createAnimationMaterial(textMaterial: Material): AnimationMaterial {
+  const material = createDerivedMaterial(textMaterial, {
+    chained: true,
+    uniforms: createAnimationUniforms(),
+    vertexDefs,
+    vertexMainOutro,
+    fragmentDefs,
+    fragmentColorTransform
+  })
+  // Derivations with the same options share the uniforms given to the first one.
+  Object.assign(material.uniforms, createAnimationUniforms())
+  Object.defineProperty(material, 'isTroikaAnimationMaterial', { value: true })
+  // Troika caches the outline variant on the text material, which would be inherited unanimated.
+  Object.defineProperty(material, '_outlineMtl', { value: undefined, writable: true })
+  return material as AnimationMaterial
+}
+
+/** The text material an animation material derives from, or the material itself if it isn't one. */
+export function unwrapAnimationMaterial(material: Material): Material {
+  return (material as AnimationMaterial).isTroikaAnimationMaterial ? (material as AnimationMaterial).baseMaterial : material
+}
+
+/** Sets the effect of an animation material, and the distance it moves glyphs by. */
+export function setAnimationEffect(material: AnimationMaterial, effect: string, amplitude: number): void {
+  material.uniforms.uTroikaAnimEffect.value = animationEffects.indexOf(effect) + 1
+  material.uniforms.uTroikaAnimSpan.value = effectSpans[effect] || 0
+  material.uniforms.uTroikaAnimAmplitude.value = amplitude
+}
+
+/**
+ * Numbers the glyphs of a troika glyphs geometry in the `aTroikaGlyphOrder` attribute, from
+ * `start`. The attribute is only reallocated when it grows, as troika syncs may render before it
+ * is numbered again.
+ */
+export function setGlyphOrder(geometry: BufferGeometry, start: number, count: number): void {
+  const attribute = geometry.getAttribute('aTroikaGlyphOrder') as InstancedBufferAttribute | undefined
+  const reused = !!attribute && attribute.array.length >= count
+  const array = reused ? (attribute as InstancedBufferAttribute).array as Float32Array : new Float32Array(count)
+  for (let i = 0; i < count; i++) array[i] = start + i
+  if (reused) (attribute as InstancedBufferAttribute).needsUpdate = true
+  else geometry.setAttribute('aTroikaGlyphOrder', new InstancedBufferAttribute(array, 1))
+}
@@ -0,0 +1,153 @@
+import {
+  Color, DoubleSide, InstancedInterleavedBuffer, InterleavedBufferAttribute, Matrix4, Mesh, MeshBasicMaterial, ShaderMaterial
+} from 'three'
+import { GlyphsGeometry, TroikaTextRenderInfo, createTextDerivedMaterial } from 'troika-three-text'
+import { DerivedMaterial, createDerivedMaterial } from 'troika-three-utils'
+
+/** The glyphs of many texts sharing an SDF texture, drawn by a single mesh. */
+export interface GlyphBatch {
+  mesh: Mesh
+  /** The index of the first glyph of each text, followed by the number of glyphs. */
+  starts: number[]
+  /** The transform of each glyph from its text to the mesh, as 4 columns. */
+  transforms: InstancedInterleavedBuffer
+  /** The render info of one of the texts, for the SDF texture they share. */
+  textRenderInfo: TroikaTextRenderInfo | null
+}
+
+/** A text of a batch, with the color its glyphs get where its `colorRanges` don't color them. */
+export interface GlyphBatchEntry {
+  textRenderInfo: TroikaTextRenderInfo
+  color: Color
+}
+
+// language=GLSL
+const vertexDefs = `
+attribute vec4 aTroikaBatchMatrix0;
+attribute vec4 aTroikaBatchMatrix1;
+attribute vec4 aTroikaBatchMatrix2;
+attribute vec4 aTroikaBatchMatrix3;
+`
+
+// Run after the glyphs are laid out by troika, which leaves the orientation to the transform.
+// language=GLSL prefix="void main() {" suffix="}"
+const vertexTransform = `
+mat4 batchMatrix = mat4(aTroikaBatchMatrix0, aTroikaBatchMatrix1, aTroikaBatchMatrix2, aTroikaBatchMatrix3);
+position = (batchMatrix * vec4(position, 1.0)).xyz;
+normal = mat3(batchMatrix[0].xyz, batchMatrix[1].xyz, batchMatrix[2].xyz) * normal;
+`
+
+/** A clip rect no glyph reaches, as the glyphs of the batch aren't clipped. */
+const unclipped = [-1e9, -1e9, 1e9, 1e9]
+
+/** The transform of the glyphs of a hidden text, collapsing them. */
+const hiddenTransform = new Matrix4().set(0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0)
+
+function createTransforms(count: number): InstancedInterleavedBuffer {
+  return new InstancedInterleavedBuffer(new Float32Array(count * 16), 16, 1)
+}
+
+function setTransforms(mesh: Mesh, transforms: InstancedInterleavedBuffer): void {
+  const geometry = mesh.geometry as GlyphsGeometry
+  for (let column = 0; column < 4; column++) {
+    geometry.setAttribute(`aTroikaBatchMatrix${column}`, new InterleavedBufferAttribute(transforms, 4, column * 4))
+  }
+}
+
+/**
+ * Creates an empty batch. Its material is a troika text material deriving from a material that
+ * moves each glyph by the transform of its text, so that the texts can be moved without laying
+ * out the batch again. It isn't frustum culled, since its texts may be anywhere, nor raycast.
+ */
+export function createGlyphBatch(): GlyphBatch {
+  const baseMaterial = new MeshBasicMaterial({ color: 0xffffff, side: DoubleSide, transparent: true })
+  const batchMaterial = createDerivedMaterial(baseMaterial, { chained: true, vertexDefs, vertexTransform })
+  const mesh = new Mesh(new GlyphsGeometry(), createTextDerivedMaterial(batchMaterial))
+  mesh.frustumCulled = false
+  // The texts are raycast by their own meshes.
+  mesh.raycast = () => undefined
+  const transforms = createTransforms(0)
+  setTransforms(mesh, transforms)
+  return { mesh, starts: [0], transforms, textRenderInfo: null }
+}
+
+/**
+ * Fills a batch with the glyphs of texts. Their transforms are hidden until set by
+ * `setBatchTransform`.
+ */
+export function setBatchGlyphs(batch: GlyphBatch, entries: GlyphBatchEntry[]): void {
+  const starts = [0]
+  entries.forEach(({ textRenderInfo }) => starts.push(starts[starts.length - 1] + textRenderInfo.glyphAtlasIndices.length))
+  const count = starts[starts.length - 1]
+  const glyphBounds = new Float32Array(count * 4)
+  const glyphAtlasIndices = new Float32Array(count)
+  const glyphColors = new Uint8Array(count * 3)
+  entries.forEach(({ textRenderInfo, color }, index) => {
+    const start = starts[index]
+    const glyphs = starts[index + 1] - start
+    glyphBounds.set(textRenderInfo.glyphBounds.subarray(0, glyphs * 4), start * 4)
+    glyphAtlasIndices.set(textRenderInfo.glyphAtlasIndices, start)
+    if (textRenderInfo.glyphColors && textRenderInfo.glyphColors.length >= glyphs * 3) {
+      glyphColors.set(textRenderInfo.glyphColors.subarray(0, glyphs * 3), start * 3)
+    } else {
+      const rgb = color.toArray().map((channel) => Math.round(channel * 255))
+      for (let glyph = start; glyph < start + glyphs; glyph++) glyphColors.set(rgb, glyph * 3)
+    }
+  })
+  const geometry = batch.mesh.geometry as GlyphsGeometry
+  geometry.updateGlyphs(glyphBounds, glyphAtlasIndices, [0, 0, 0, 0], [], glyphColors)
+  batch.starts = starts
+  batch.transforms = createTransforms(count)
+  setTransforms(batch.mesh, batch.transforms)
+  batch.textRenderInfo = entries.length ? entries[0].textRenderInfo : null
+}
+
+/**
+ * Sets the transform of the glyphs of the text at `index` in the batch, from the text plane to the
+ * batch mesh, or hides them if null. The glyphs are only uploaded again when it changed.
+ */
+export function setBatchTransform(batch: GlyphBatch, index: number, matrix: Matrix4 | null): void {
+  const { starts, transforms } = batch
+  const array = transforms.array as Float32Array
+  const start = starts[index]
+  const end = starts[index + 1]
+  if (start === end) return
+  const { elements } = matrix || hiddenTransform
+  if (elements.every((element, i) => array[start * 16 + i] === Math.fround(element))) return
+  for (let glyph = start; glyph < end; glyph++) array.set(elements, glyph * 16)
+  transforms.needsUpdate = true
+}
+
+/**
+ * Sets the uniforms of the material of a batch right before it is drawn, as a Text mesh does for
+ * its own, with the styles that aren't batched left out.
+ */
+export function prepareGlyphBatch(batch: GlyphBatch): void {
+  const { textRenderInfo } = batch
+  const { uniforms } = batch.mesh.material as ShaderMaterial
+  if (!textRenderInfo) return
+  const { sdfTexture } = textRenderInfo
+  uniforms.uTroikaSDFTexture.value = sdfTexture
+  uniforms.uTroikaSDFTextureSize.value.set(sdfTexture.image.width, sdfTexture.image.height)
+  uniforms.uTroikaSDFGlyphSize.value = textRenderInfo.sdfGlyphSize
+  uniforms.uTroikaSDFExponent.value = textRenderInfo.sdfExponent
+  uniforms.uTroikaTotalBounds.value.fromArray(unclipped)
+  uniforms.uTroikaClipRect.value.fromArray(unclipped)
+  uniforms.uTroikaUseGlyphColors.value = true
+  uniforms.uTroikaDistanceOffset.value = 0
+  uniforms.uTroikaPositionOffset.value.set(0, 0)
+  uniforms.uTroikaBlurRadius.value = 0
+  uniforms.uTroikaStrokeWidth.value = 0
+  uniforms.uTroikaFillOpacity.value = 1
+  uniforms.uTroikaCurveRadius.value = 0
+  uniforms.uTroikaOrient.value.identity()
+}
+
+export function disposeGlyphBatch(batch: GlyphBatch): void {
+  const textMaterial = batch.mesh.material as DerivedMaterial
+  const batchMaterial = textMaterial.baseMaterial as DerivedMaterial
+  batch.mesh.geometry.dispose()
+  textMaterial.dispose()
+  batchMaterial.dispose()
+  batchMaterial.baseMaterial.dispose()
+}
@@ -0,0 +1,166 @@
+import { Matrix4, Ray, Raycaster, Vector2, Vector3 } from 'three'
+import { Text, TroikaTextRenderInfo, getCaretAtPoint } from 'troika-three-text'
+import { TextRect } from './text-plane-geometry'
+
+/** A point where a ray hits the block of a Text instance. */
+export interface TextIntersection {
+  /** The distance between the origin of the ray and the hit point, in world units. */
+  distance: number
+  /** The hit point in world space. */
+  point: Vector3
+  /**
+   * The hit point on the text plane in local units, with the `curveRadius` and `orientation` of
+   * the instance undone; comparable to `textRenderInfo.blockBounds` and `caretPositions`.
+   */
+  textCoords: Vector2
+}
+
+/** The character and line at a position on the text plane. */
+export interface TextCharacterHit {
+  /** The index of the character in the text string, or -1 if the position is not on a character. */
+  charIndex: number
+  /** The index of the line nearest the position, or -1 if there are no lines. */
+  lineIndex: number
+}
+
+type Axis = 'x' | 'y' | 'z'
+
+const origin = new Vector3()
+const tempVec3a = new Vector3()
+const tempVec3b = new Vector3()
+const tempMat4a = new Matrix4()
+const tempMat4b = new Matrix4()
+const tempRay = new Ray()
+
+/**
+ * Computes the rotation that troika applies to the glyphs for the given `orientation`, mapping
+ * the text plane to the local space of the instance.
+ */
+export function getOrientationMatrix(orientation: string, target = new Matrix4()): Matrix4 {
+  const orient = orientation.replace(/[^-+xyz]/g, '')
+  const match = orient !== '+x+y' && orient.match(/^([-+])([xyz])([-+])([xyz])$/)
+  if (!match) return target.identity()
+  const [, hSign, hAxis, vSign, vAxis] = match
+  tempVec3a.set(0, 0, 0)[hAxis as Axis] = hSign === '-' ? 1 : -1
+  tempVec3b.set(0, 0, 0)[vAxis as Axis] = vSign === '-' ? -1 : 1
+  return target.lookAt(origin, tempVec3a.cross(tempVec3b), tempVec3b)
+}
+
+/**
+ * Intersects a ray with the text block of a Text instance, honoring its `curveRadius` and
+ * `orientation`. Returns null if the ray misses the block or the text has not been synced yet.
+ * If `unbounded` is true, the text plane is treated as extending past the block, which is
+ * useful to keep tracking a pointer that is dragged off the text. The block is taken from
+ * `textRenderInfo`, which defaults to the one of the instance.
+ */
+export function intersectText(
+  text: Text,
+  raycaster: Raycaster,
+  unbounded = false,
+  textRenderInfo: TroikaTextRenderInfo | null = text.textRenderInfo
+): TextIntersection | null {
+  const { curveRadius } = text
+  if (!textRenderInfo) return null
+  const [minX, minY, maxX, maxY] = textRenderInfo.blockBounds
+
+  // Work in the text plane space, where glyphs lie on z = 0 before curving.
+  const textToWorld = tempMat4a.multiplyMatrices(text.matrixWorld, getOrientationMatrix(text.orientation, tempMat4b))
+  const ray = tempRay.copy(raycaster.ray).applyMatrix4(tempMat4b.getInverse(textToWorld))
+  const { origin: o, direction: d } = ray
+
+  const candidates: number[] = []
+  if (curveRadius) {
+    // The text wraps a vertical cylinder centered on (0, curveRadius) in the xz plane.
+    const fz = o.z - curveRadius
+    const a = d.x * d.x + d.z * d.z
+    const b = 2 * (o.x * d.x + fz * d.z)
+    const c = o.x * o.x + fz * fz - curveRadius * curveRadius
+    const discriminant = b * b - 4 * a * c
+    if (a > 0 && discriminant >= 0) {
+      const sqrt = Math.sqrt(discriminant)
+      candidates.push((-b - sqrt) / (2 * a), (-b + sqrt) / (2 * a))
+    }
+  } else if (d.z !== 0) {
+    candidates.push(-o.z / d.z)
+  }
+
+  for (const t of candidates) {
+    if (t < 0) continue
+    const local = ray.at(t, new Vector3())
+    const x = curveRadius
+      ? Math.atan2(local.x / curveRadius, (curveRadius - local.z) / curveRadius) * curveRadius
+      : local.x
+    const y = local.y
+    if (unbounded) {
+      // Only the half of the cylinder that faces the text counts as the text plane.
+      if (curveRadius && Math.abs(x / curveRadius) > Math.PI / 2) continue
+    } else if (x < minX || x > maxX || y < minY || y > maxY) {
+      continue
+    }
+    const point = local.applyMatrix4(textToWorld)
+    const distance = point.distanceTo(raycaster.ray.origin)
+    if (distance < raycaster.near || distance > raycaster.far) continue
+    return { distance, point, textCoords: new Vector2(x, y) }
+  }
+  return null
+}
+
+/**
+ * Finds the character and the line at a position on the text plane, using the `caretPositions`
+ * of a text render info.
+ */
+export function getCharacterAt(textRenderInfo: TroikaTextRenderInfo, x: number, y: number): TextCharacterHit {
+  const { caretPositions, caretHeight } = textRenderInfo
+  let charIndex = -1
+  let lineIndex = -1
+  let currentLine = -1
+  let lineBottom = NaN
+  let lineDistance = Infinity
+  for (let i = 0; i * 3 < caretPositions.length; i++) {
+    const left = caretPositions[i * 3]
+    const right = caretPositions[i * 3 + 1]
+    const bottom = caretPositions[i * 3 + 2]
+    if (bottom !== lineBottom) {
+      lineBottom = bottom
+      currentLine++
+      const distance = Math.abs(y - (bottom + caretHeight / 2))
+      if (distance < lineDistance) {
+        lineDistance = distance
+        lineIndex = currentLine
+      }
+    }
+    if (y >= bottom && y <= bottom + caretHeight && x >= Math.min(left, right) && x <= Math.max(left, right)) {
+      charIndex = i
+    }
+  }
+  return { charIndex, lineIndex }
+}
+
+/**
+ * Finds the caret nearest a position on the text plane, returning the index of the character
+ * after it.
+ */
+export function getCaretIndexAt(textRenderInfo: TroikaTextRenderInfo, x: number, y: number): number {
+  if (!textRenderInfo.caretPositions.length) return 0
+  const caret = getCaretAtPoint(textRenderInfo, x, y)
+  return caret ? caret.charIndex : 0
+}
+
+/**
+ * Computes the rect of a caret drawn before the character at `index`, or after the last
+ * character if `index` is past the end of the text.
+ */
+export function getCaretRect(textRenderInfo: TroikaTextRenderInfo, index: number, width: number): TextRect {
+  const { caretPositions, caretHeight, blockBounds } = textRenderInfo
+  const count = caretPositions.length / 3
+  let x = blockBounds[0]
+  let bottom = blockBounds[3] - caretHeight
+  if (index < count) {
+    x = caretPositions[Math.max(0, index) * 3]
+    bottom = caretPositions[Math.max(0, index) * 3 + 2]
+  } else if (count) {
+    x = caretPositions[(count - 1) * 3 + 1]
+    bottom = caretPositions[(count - 1) * 3 + 2]
+  }
+  return { left: x - width / 2, right: x + width / 2, bottom, top: bottom + caretHeight }
+}
@@ -0,0 +1,164 @@
+import { colorInitializer } from 'troika-three-text'
+
+/** The styles that the tags of a markup string apply to the text they enclose. */
+export interface MarkupStyle {
+  /** Set by `<color=...>`, with any color string accepted by `THREE.Color`. */
+  color?: colorInitializer
+  /** Set by `<size=...>`, as a multiplier of the `fontSize`, e.g. `1.2` or `120%`. */
+  size?: number
+  /** Set by `<font=...>`, with the URL of a font. */
+  font?: string
+  /** Set by `<b>`. */
+  bold?: boolean
+  /** Set by `<outline=...>`, with a width optionally followed by a color, e.g. `8% #000`. */
+  outlineWidth?: string | number
+  outlineColor?: colorInitializer
+}
+
+/** A range of the plain text over which the markup style doesn't change. */
+export interface MarkupRun {
+  /** The index of the first character of the run in the plain text. */
+  start: number
+  text: string
+  style: MarkupStyle
+  /** The bidi embedding level of the run, once split by `splitRunsByLevel`. */
+  level?: number
+}
+
+export interface ParsedMarkup {
+  /** The text with the tags removed and the entities decoded. */
+  text: string
+  /** The consecutive runs covering the whole text. */
+  runs: MarkupRun[]
+}
+
+const tokenPattern = /<(\/?)([a-z]+)(?:=("[^"]*"|'[^']*'|[^>]*))?>|&(lt|gt|amp|quot|apos);/gi
+
+const entities: { [name: string]: string } = { lt: '<', gt: '>', amp: '&', quot: '"', apos: '\'' }
+
+/** Parses a size multiplier, either a plain number or a percentage. */
+function parseSize(value: string): number {
+  const match = value.match(/^([\d.]+)(%?)$/)
+  return match ? parseFloat(match[1]) / (match[2] ? 100 : 1) : NaN
+}
+
+/**
+ * The parsers of the supported tags, returning the style of a tag from its value, or null if the
+ * value is invalid. Tags without a parser, or with an invalid value, are kept as plain text.
+ */
+const tagParsers: { [name: string]: (value?: string) => MarkupStyle | null } = {
+  b: (value) => (value === undefined ? { bold: true } : null),
+  color: (value) => (value ? { color: value } : null),
+  size: (value) => {
+    const size = value ? parseSize(value) : NaN
+    return size > 0 && Number.isFinite(size) ? { size } : null
+  },
+  font: (value) => (value ? { font: value } : null),
+  outline: (value) => {
+    const [width, color] = value ? value.split(/[\s,]+/) : []
+    if (!width) return null
+    const number = Number(width)
+    if (Number.isNaN(number) && !/^[\d.]+%$/.test(width)) return null
+    return color === undefined
+      ? { outlineWidth: Number.isNaN(number) ? width : number }
+      : { outlineWidth: Number.isNaN(number) ? width : number, outlineColor: color }
+  }
+}
+
+/**
+ * Parses a string of rich-text markup into plain text and runs of styles. The supported tags are
+ * `<b>`, `<color=...>`, `<size=...>`, `<font=...>` and `<outline=...>`, each closed by its
+ * `</name>` tag or by the end of the markup. Values may be quoted. The entities `&lt;`, `&gt;`,
+ * `&amp;`, `&quot;` and `&apos;` can be used to write literal characters.
+ */
+export function parseMarkup(markup: string): ParsedMarkup {
+  const stack: { name: string, style: MarkupStyle }[] = []
+  const runs: MarkupRun[] = []
+  let text = ''
+  let runStart = 0
+
+  const closeRun = (): void => {
+    if (text.length > runStart) {
+      runs.push({
+        start: runStart,
+        text: text.slice(runStart),
+        style: Object.assign({}, ...stack.map(({ style }) => style))
+      })
+    }
+    runStart = text.length
+  }
+
+  let lastIndex = 0
+  tokenPattern.lastIndex = 0
+  for (let match = tokenPattern.exec(markup); match; match = tokenPattern.exec(markup)) {
+    const [token, closing, tagName, rawValue, entity] = match
+    text += markup.slice(lastIndex, match.index)
+    lastIndex = tokenPattern.lastIndex
+    if (entity) {
+      text += entities[entity.toLowerCase()]
+      continue
+    }
+    const name = tagName.toLowerCase()
+    if (closing) {
+      let index = stack.length - 1
+      while (index >= 0 && stack[index].name !== name) index--
+      if (rawValue !== undefined || index < 0) {
+        text += token
+        continue
+      }
+      closeRun()
+      stack.splice(index, 1)
+      continue
+    }
+    const value = rawValue && /^(["']).*\1$/.test(rawValue) ? rawValue.slice(1, -1) : rawValue
+    const style = tagParsers[name] ? tagParsers[name](value) : null
+    if (!style) {
+      text += token
+      continue
+    }
+    closeRun()
+    stack.push({ name, style })
+  }
+  text += markup.slice(lastIndex)
+  closeRun()
+  return { text, runs }
+}
+
+/**
+ * Combines the colors of markup runs with a `colorRanges` object. Runs without a color use the
+ * range of `colorRanges` they start in, or `baseColor`. Returns `colorRanges` unchanged if no run
+ * has a color.
+ */
+export function mergeColorRanges(
+  runs: MarkupRun[],
+  colorRanges: { [index: number]: colorInitializer } | null,
+  baseColor: colorInitializer
+): { [index: number]: colorInitializer } | null {
+  if (!runs.some(({ style }) => style.color !== undefined)) return colorRanges
+  const keys = colorRanges ? Object.keys(colorRanges).map(Number).sort((a, b) => a - b) : []
+  const rangeColorAt = (index: number): colorInitializer => {
+    let color = baseColor
+    for (const key of keys) {
+      if (key > index) break
+      color = (colorRanges as { [index: number]: colorInitializer })[key]
+    }
+    return color
+  }
+  const boundaries = Array.from(new Set([...runs.map(({ start }) => start), ...keys])).sort((a, b) => a - b)
+  const merged: { [index: number]: colorInitializer } = {}
+  let runIndex = 0
+  boundaries.forEach((index) => {
+    while (runIndex < runs.length - 1 && runs[runIndex + 1].start <= index) runIndex++
+    const { color } = runs[runIndex].style
+    merged[index] = color === undefined ? rangeColorAt(index) : color
+  })
+  return merged
+}
+
+/**
+ * Whether a style needs a mesh of its own, unlike colors, which are applied by `colorRanges`.
+ * Fonts only need one when they differ between runs.
+ */
+export function needsOwnMesh({ size, bold, outlineWidth }: MarkupStyle): boolean {
+  return size !== undefined || !!bold || outlineWidth !== undefined
+}
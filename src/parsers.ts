@@ -0,0 +1,69 @@
+import { Color, Euler, Vector3 } from 'three'
+import { colorInitializer } from 'troika-three-text'
+
+export function nullableParser<TIn, TOut>(parser: (a: TIn) => TOut): (a: TIn | null) => TOut | null {
+  return (value) => value == null ? null : parser(value)
+}
+
+export function parseNumber(value: string | number): number {
+  return typeof value === 'number' ? value : parseFloat(value)
+}
+
+/** Whether a string is a number alone, as opposed to a percentage or a keyword. */
+export function isNumeric(value: string): boolean {
+  return /^\s*[-+]?(Infinity|(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?)\s*$/.test(value)
+}
+
+/** Parses the numeric strings of a prop that also takes percentages or keywords, e.g. `anchorX`. */
+export function parseLength(value: string | number): string | number {
+  return typeof value === 'string' && isNumeric(value) ? parseFloat(value) : value
+}
+
+/**
+ * Splits a string of color ranges, e.g. `'0:#f00,5:blue'`, into their indexes and colors. Colors
+ * may contain commas, e.g. `'0:rgb(255,0,0),5:blue'`.
+ */
+export function splitColorRanges(ranges: string): [string, string][] {
+  return ranges.split(/,(?=\s*\d+\s*:)/).map((range) => {
+    const separator = range.indexOf(':')
+    return [range.slice(0, separator).trim(), range.slice(separator + 1).trim()]
+  })
+}
+
+export function parseColorRanges(ranges: string | { [index: number]: colorInitializer }): { [index: number]: colorInitializer } {
+  if (typeof ranges !== 'string') return ranges
+  const parsed: { [index: number]: colorInitializer } = {}
+  splitColorRanges(ranges).forEach(([index, color]) => { parsed[parseInt(index, 10)] = color })
+  return parsed
+}
+
+export function parseFloatArray(array: string | (string | number)[]): number[] {
+  return Array.isArray(array)
+    ? array.map(item => typeof item === 'number' ? item : parseFloat(item))
+    : array.split(',').map(parseFloat)
+}
+
+/** Expands a padding of 1, 2 or 4 lengths, as in CSS, to `[top, right, bottom, left]`. */
+export function parsePadding(padding: number | string | (string | number)[]): [number, number, number, number] {
+  const lengths = typeof padding === 'number' ? [padding] : parseFloatArray(padding)
+  const [top, right = top, bottom = top, left = right]: number[] = lengths
+  return [top, right, bottom, left]
+}
+
+export function parseColor(color: colorInitializer): Color {
+  return (<Color>color).isColor ? <Color>color : new Color(<string | number>color)
+}
+
+export function parseVector3(vector: string | (string | number)[] | Vector3): Vector3 {
+  if ((<Vector3>vector).isVector3) return <Vector3>vector
+  const coords = Array.isArray(vector) ? vector : (<string>vector).trim().split(/\s+/)
+  return new Vector3(...coords.map(item => typeof item === 'number' ? item : parseFloat(item)))
+}
+
+/** Parses an euler angle in the format of VueGL, e.g. `'0 1.57 0 YXZ'`, with an optional order. */
+export function parseEuler(euler: string | (string | number)[] | Euler): Euler {
+  if (euler instanceof Euler) return euler
+  const coords = Array.isArray(euler) ? euler : (<string>euler).trim().split(/\s+/)
+  const [x, y, z] = coords.slice(0, 3).map(item => typeof item === 'number' ? item : parseFloat(item))
+  return new Euler(x, y, z, coords[3] as string | undefined)
+}
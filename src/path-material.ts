@@ -0,0 +1,116 @@
+import { Curve, Material, Matrix3, Vector2, Vector3 } from 'three'
+import { DerivedMaterial, createDerivedMaterial } from 'troika-three-utils'
+
+/** The number of points a path is sampled at, evenly spaced along its length. */
+const pathSamples = 64
+
+/** A path sampled for the shader. */
+export interface PathLayout {
+  /** The points of the path on the text plane, evenly spaced along its length. */
+  points: Vector3[]
+  length: number
+}
+
+/** The uniforms of a path material, set for each mesh right before it is rendered. */
+export type PathUniforms = {
+  uTroikaPathPoints: { value: Vector3[] }
+  uTroikaPathLength: { value: number }
+  /** The distance along the path that the x origin of the text plane is mapped to. */
+  uTroikaPathStart: { value: number }
+  /** The offset of the mesh on the text plane, for the run meshes laid out as a block. */
+  uTroikaPathOffset: { value: Vector2 }
+  /** The orientation matrix of the text, which the glyphs are laid out with before being bent. */
+  uTroikaPathOrient: { value: Matrix3 }
+}
+
+export type PathMaterial = DerivedMaterial & { readonly isTroikaPathMaterial: true, uniforms: PathUniforms }
+
+// language=GLSL
+const vertexDefs = `
+#define TROIKA_PATH_SAMPLES ${pathSamples}
+uniform vec3 uTroikaPathPoints[TROIKA_PATH_SAMPLES];
+uniform float uTroikaPathLength;
+uniform float uTroikaPathStart;
+uniform vec2 uTroikaPathOffset;
+uniform mat3 uTroikaPathOrient;
+
+vec3 troikaPathTangent(int index) {
+  int before = index > 0 ? index - 1 : 0;
+  int after = index < TROIKA_PATH_SAMPLES - 1 ? index + 1 : TROIKA_PATH_SAMPLES - 1;
+  return normalize(uTroikaPathPoints[after] - uTroikaPathPoints[before]);
+}
+`
+
+// The glyphs are laid out by troika first, so its orientation is undone and applied again after
+// bending. Positions past the ends of the path continue straight along its tangent there.
+// language=GLSL prefix="void main() {" suffix="}"
+const vertexTransform = `
+vec3 pathPosition = position * uTroikaPathOrient;
+pathPosition.xy += uTroikaPathOffset;
+float pathDistance = uTroikaPathStart + pathPosition.x;
+float pathT = clamp(pathDistance / uTroikaPathLength, 0.0, 1.0) * float(TROIKA_PATH_SAMPLES - 1);
+int pathIndex = int(min(floor(pathT), float(TROIKA_PATH_SAMPLES - 2)));
+float pathMix = pathT - float(pathIndex);
+vec3 pathPoint = mix(uTroikaPathPoints[pathIndex], uTroikaPathPoints[pathIndex + 1], pathMix);
+vec2 pathDirection = normalize(mix(troikaPathTangent(pathIndex), troikaPathTangent(pathIndex + 1), pathMix).xy);
+pathPoint.xy += pathDirection * (pathDistance - clamp(pathDistance, 0.0, uTroikaPathLength));
+position = uTroikaPathOrient * vec3(
+  pathPoint.xy + vec2(-pathDirection.y, pathDirection.x) * pathPosition.y,
+  pathPoint.z + pathPosition.z
+);
+`
+
+/**
+ * The distance along a path of the x origin of the text plane, so that the text block is aligned
+ * along the path by `align` and moved along it by `offset`.
+ */
+export function getPathStart(length: number, blockBounds: number[], offset: number, align: string): number {
+  if (align === 'center') return offset + (length - blockBounds[0] - blockBounds[2]) / 2
+  if (align === 'end') return offset + length - blockBounds[2]
+  return offset - blockBounds[0]
+}
+
+function createPathUniforms(): PathUniforms {
+  return {
+    uTroikaPathPoints: { value: Array.from({ length: pathSamples }, () => new Vector3()) },
+    uTroikaPathLength: { value: 1 },
+    uTroikaPathStart: { value: 0 },
+    uTroikaPathOffset: { value: new Vector2() },
+    uTroikaPathOrient: { value: new Matrix3() }
+  }
+}
+
+/**
+ * Samples a curve for a path material, or returns null if it has no length. The points of 2D
+ * curves are put on the text plane as they are, and the z of 3D ones lifts the text off it.
+ */
+export function samplePath(curve: Curve<Vector2 | Vector3>): PathLayout | null {
+  const length = curve.getLength()
+  if (!(length > 0)) return null
+  const points = curve.getSpacedPoints(pathSamples - 1).map((point) => new Vector3(point.x, point.y, (point as Vector3).z || 0))
+  return { points, length }
+}
+
+/**
+ * Derives a material bending the glyphs of a troika text along a path, to be used as the base
+ * material of the text. Each glyph vertex is moved along the path by its x on the text plane and
+ * off it by its y, so that glyphs subdivided by `glyphGeometryDetail` bend smoothly. Each material
+ * has uniforms of its own, which are shared with the text material troika derives from it.
+ */
+export function createPathMaterial(baseMaterial: Material): PathMaterial {
+  const material = createDerivedMaterial(baseMaterial, {
+    chained: true,
+    uniforms: createPathUniforms(),
+    vertexDefs,
+    vertexTransform
+  })
+  // Derivations with the same options share the uniforms given to the first one.
+  Object.assign(material.uniforms, createPathUniforms())
+  Object.defineProperty(material, 'isTroikaPathMaterial', { value: true })
+  return material as PathMaterial
+}
+
+/** The material a path material derives from, or the material itself if it isn't one. */
+export function unwrapPathMaterial(material: Material): Material {
+  return (material as PathMaterial).isTroikaPathMaterial ? (material as PathMaterial).baseMaterial : material
+}
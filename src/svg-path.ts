@@ -0,0 +1,170 @@
+import { Path } from 'three'
+
+/** Matches a number of the SVG path data grammar, and the separators before it. */
+const numberPattern = /^[\s,]*([-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?)/
+
+/** Matches a flag of an arc command, which may not be separated from the next number. */
+const flagPattern = /^[\s,]*([01])/
+
+const commandPattern = /^[\s,]*([MmLlHhVvCcSsQqTtAaZz])/
+
+/** Whether a string looks like SVG path data, starting with a moveto command. */
+export function isSvgPathData(value: string): boolean {
+  return /^\s*[Mm][\s,]*[-+.\d]/.test(value)
+}
+
+/**
+ * Adds an arc of the SVG endpoint parameterization to a path, converted to the center
+ * parameterization of three.js as in the implementation notes of the SVG specification.
+ */
+function arcTo(path: Path, x1: number, y1: number, rx: number, ry: number, rotation: number, largeArc: boolean, sweep: boolean, x2: number, y2: number): void {
+  if (!rx || !ry) {
+    path.lineTo(x2, y2)
+    return
+  }
+  rx = Math.abs(rx)
+  ry = Math.abs(ry)
+  const phi = rotation * Math.PI / 180
+  const cos = Math.cos(phi)
+  const sin = Math.sin(phi)
+  const dx = (x1 - x2) / 2
+  const dy = (y1 - y2) / 2
+  const x1p = cos * dx + sin * dy
+  const y1p = -sin * dx + cos * dy
+  // Radii too small to join the points are scaled up.
+  const lambda = x1p * x1p / (rx * rx) + y1p * y1p / (ry * ry)
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda)
+    ry *= Math.sqrt(lambda)
+  }
+  const numerator = rx * rx * ry * ry - rx * rx * y1p * y1p - ry * ry * x1p * x1p
+  const denominator = rx * rx * y1p * y1p + ry * ry * x1p * x1p
+  const factor = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, numerator / denominator))
+  const cxp = factor * rx * y1p / ry
+  const cyp = -factor * ry * x1p / rx
+  const cx = cos * cxp - sin * cyp + (x1 + x2) / 2
+  const cy = sin * cxp + cos * cyp + (y1 + y2) / 2
+  const startAngle = Math.atan2((y1p - cyp) / ry, (x1p - cxp) / rx)
+  let deltaAngle = Math.atan2((-y1p - cyp) / ry, (-x1p - cxp) / rx) - startAngle
+  if (sweep && deltaAngle < 0) deltaAngle += Math.PI * 2
+  if (!sweep && deltaAngle > 0) deltaAngle -= Math.PI * 2
+  path.absellipse(cx, cy, rx, ry, startAngle, startAngle + deltaAngle, deltaAngle < 0, phi)
+}
+
+/**
+ * Parses SVG path data into a path. The coordinates are taken as they are, so the y axis points
+ * up like on the text plane, unlike in an SVG viewport. A moveto within the data starts a new
+ * subpath, which the path jumps to.
+ */
+export function parseSvgPath(data: string): Path {
+  const path = new Path()
+  let rest = data
+  const read = (pattern: RegExp): string | null => {
+    const match = rest.match(pattern)
+    if (!match) return null
+    rest = rest.slice(match[0].length)
+    return match[1]
+  }
+  const readNumber = (): number => {
+    const value = read(numberPattern)
+    if (value === null) throw new SyntaxError(`Invalid SVG path data: ${data}`)
+    return parseFloat(value)
+  }
+  const readFlag = (): boolean => {
+    const value = read(flagPattern)
+    if (value === null) throw new SyntaxError(`Invalid SVG path data: ${data}`)
+    return value === '1'
+  }
+
+  let x = 0
+  let y = 0
+  let startX = 0
+  let startY = 0
+  // The control point of the last curve, reflected by the smooth curve commands.
+  let controlX = 0
+  let controlY = 0
+  // 'C' or 'Q' if the last command drew a cubic or a quadratic curve.
+  let lastCurve: string | null = null
+  let command: string | null = null
+  while (rest.trim()) {
+    const next = read(commandPattern)
+    if (next !== null) command = next
+    else if (command === null || /[Zz]/.test(command)) throw new SyntaxError(`Invalid SVG path data: ${data}`)
+    const type = (command as string).toUpperCase()
+    const relative: boolean = command !== type
+    const dx = relative ? x : 0
+    const dy = relative ? y : 0
+    let nextControlX = x
+    let nextControlY = y
+    switch (type) {
+      case 'M':
+        x = startX = readNumber() + dx
+        y = startY = readNumber() + dy
+        path.moveTo(x, y)
+        // Further coordinate pairs are implicit linetos.
+        command = relative ? 'l' : 'L'
+        break
+      case 'L':
+        x = readNumber() + dx
+        y = readNumber() + dy
+        path.lineTo(x, y)
+        break
+      case 'H':
+        x = readNumber() + dx
+        path.lineTo(x, y)
+        break
+      case 'V':
+        y = readNumber() + dy
+        path.lineTo(x, y)
+        break
+      case 'C':
+      case 'S': {
+        const [x1, y1] = type === 'S'
+          ? lastCurve === 'C' ? [x * 2 - controlX, y * 2 - controlY] : [x, y]
+          : [readNumber() + dx, readNumber() + dy]
+        nextControlX = readNumber() + dx
+        nextControlY = readNumber() + dy
+        x = readNumber() + dx
+        y = readNumber() + dy
+        path.bezierCurveTo(x1, y1, nextControlX, nextControlY, x, y)
+        break
+      }
+      case 'Q':
+      case 'T': {
+        if (type === 'T') {
+          nextControlX = lastCurve === 'Q' ? x * 2 - controlX : x
+          nextControlY = lastCurve === 'Q' ? y * 2 - controlY : y
+        } else {
+          nextControlX = readNumber() + dx
+          nextControlY = readNumber() + dy
+        }
+        x = readNumber() + dx
+        y = readNumber() + dy
+        path.quadraticCurveTo(nextControlX, nextControlY, x, y)
+        break
+      }
+      case 'A': {
+        const rx = readNumber()
+        const ry = readNumber()
+        const rotation = readNumber()
+        const largeArc = readFlag()
+        const sweep = readFlag()
+        const x2 = readNumber() + dx
+        const y2 = readNumber() + dy
+        arcTo(path, x, y, rx, ry, rotation, largeArc, sweep, x2, y2)
+        x = x2
+        y = y2
+        break
+      }
+      case 'Z':
+        if (x !== startX || y !== startY) path.lineTo(startX, startY)
+        x = startX
+        y = startY
+        break
+    }
+    controlX = nextControlX
+    controlY = nextControlY
+    lastCurve = /[CS]/.test(type) ? 'C' : /[QT]/.test(type) ? 'Q' : null
+  }
+  return path
+}
@@ -0,0 +1,156 @@
+import { BufferGeometry, Float32BufferAttribute, Matrix4, Vector3 } from 'three'
+
+/** A rect on the text plane, in the format returned by troika's `getSelectionRects`. */
+export interface TextRect {
+  left: number
+  top: number
+  right: number
+  bottom: number
+}
+
+/** The largest angle of a `curveRadius` that a single segment of a rect may span. */
+const maxSegmentAngle = Math.PI / 36
+
+/** The number of segments approximating each rounded corner. */
+const cornerSegments = 8
+
+/**
+ * Maps a point on the text plane onto the cylinder of a `curveRadius`, the same way troika bends
+ * the glyphs. A zero radius leaves the point flat.
+ */
+export function bendToCurve(x: number, y: number, curveRadius: number, target = new Vector3()): Vector3 {
+  if (!curveRadius) return target.set(x, y, 0)
+  const angle = x / curveRadius
+  return target.set(Math.sin(angle) * curveRadius, y, curveRadius - Math.cos(angle) * curveRadius)
+}
+
+/**
+ * Builds a geometry of rects on the text plane. Each rect is subdivided horizontally so that it
+ * follows the `curveRadius`, then rotated by the orientation matrix of the text.
+ */
+function countSegments(width: number, curveRadius: number): number {
+  return curveRadius ? Math.max(1, Math.ceil(Math.abs(width / curveRadius) / maxSegmentAngle)) : 1
+}
+
+function createGeometry(positions: number[], indices: number[]): BufferGeometry {
+  const geometry = new BufferGeometry()
+  geometry.setAttribute('position', new Float32BufferAttribute(positions, 3))
+  geometry.setIndex(indices)
+  geometry.computeBoundingSphere()
+  return geometry
+}
+
+export function createRectsGeometry(rects: TextRect[], curveRadius: number, orientation: Matrix4): BufferGeometry {
+  const positions: number[] = []
+  const indices: number[] = []
+  const vertex = new Vector3()
+  rects.forEach(({ left, top, right, bottom }) => {
+    const segments = countSegments(right - left, curveRadius)
+    const first = positions.length / 3
+    for (let i = 0; i <= segments; i++) {
+      const x = left + (right - left) * i / segments
+      bendToCurve(x, bottom, curveRadius, vertex).applyMatrix4(orientation)
+      positions.push(vertex.x, vertex.y, vertex.z)
+      bendToCurve(x, top, curveRadius, vertex).applyMatrix4(orientation)
+      positions.push(vertex.x, vertex.y, vertex.z)
+    }
+    for (let i = 0; i < segments; i++) {
+      const corner = first + i * 2
+      indices.push(corner, corner + 2, corner + 1, corner + 1, corner + 2, corner + 3)
+    }
+  })
+  return createGeometry(positions, indices)
+}
+
+/**
+ * The outline of a rect with rounded corners, counterclockwise from the start of its bottom edge.
+ * The horizontal edges are split in `segments` between the corners, so that they follow a
+ * `curveRadius`, and outlines of nested rects pair up point by point.
+ */
+function outlineRoundedRect({ left, top, right, bottom }: TextRect, radius: number, segments: number): [number, number][] {
+  const points: [number, number][] = []
+  const corners: [number, number, number][] = [
+    [right - radius, bottom + radius, -Math.PI / 2],
+    [right - radius, top - radius, 0],
+    [left + radius, top - radius, Math.PI / 2],
+    [left + radius, bottom + radius, Math.PI]
+  ]
+  corners.forEach(([x, y, startAngle], corner) => {
+    // The bottom and top edges, leading to the corners on the right and on the left respectively.
+    if (corner % 2 === 0) {
+      const [fromX, toX] = corner ? [right - radius, left + radius] : [left + radius, right - radius]
+      const edgeY = corner ? top : bottom
+      for (let i = 1; i < segments; i++) points.push([fromX + (toX - fromX) * i / segments, edgeY])
+    }
+    for (let i = 0; i <= cornerSegments; i++) {
+      const angle = startAngle + Math.PI / 2 * i / cornerSegments
+      points.push([x + Math.cos(angle) * radius, y + Math.sin(angle) * radius])
+    }
+  })
+  return points
+}
+
+/** Clamps a corner radius to the half of the shorter side of a rect. */
+function clampRadius({ left, top, right, bottom }: TextRect, radius: number): number {
+  return Math.max(0, Math.min(radius, (right - left) / 2, (top - bottom) / 2))
+}
+
+/**
+ * Builds a geometry of a rect with rounded corners on the text plane, following the `curveRadius`
+ * and rotated by the orientation matrix of the text like `createRectsGeometry`.
+ */
+export function createRoundedRectGeometry(rect: TextRect, radius: number, curveRadius: number, orientation: Matrix4): BufferGeometry {
+  const { left, top, right, bottom } = rect
+  const r = clampRadius(rect, radius)
+  // Vertical spans across the rect, narrowed at the corners, joined by quads like the rects.
+  const spans: [number, number][] = []
+  for (let i = 0; i < cornerSegments; i++) {
+    const angle = Math.PI / 2 * i / cornerSegments
+    spans.push([left + r - Math.cos(angle) * r, r - Math.sin(angle) * r])
+  }
+  const segments = countSegments(right - left - r * 2, curveRadius)
+  for (let i = 0; i <= segments; i++) spans.push([left + r + (right - left - r * 2) * i / segments, 0])
+  for (let i = cornerSegments - 1; i >= 0; i--) {
+    const [x, inset] = spans[i]
+    spans.push([right - (x - left), inset])
+  }
+
+  const positions: number[] = []
+  const indices: number[] = []
+  const vertex = new Vector3()
+  spans.forEach(([x, inset], i) => {
+    bendToCurve(x, bottom + inset, curveRadius, vertex).applyMatrix4(orientation)
+    positions.push(vertex.x, vertex.y, vertex.z)
+    bendToCurve(x, top - inset, curveRadius, vertex).applyMatrix4(orientation)
+    positions.push(vertex.x, vertex.y, vertex.z)
+    if (i) indices.push(i * 2 - 2, i * 2, i * 2 - 1, i * 2 - 1, i * 2, i * 2 + 1)
+  })
+  return createGeometry(positions, indices)
+}
+
+/**
+ * Builds a geometry of the border of a rect with rounded corners, drawn inside its edges with a
+ * `width`, on the text plane like `createRoundedRectGeometry`.
+ */
+export function createRoundedBorderGeometry(rect: TextRect, radius: number, width: number, curveRadius: number, orientation: Matrix4): BufferGeometry {
+  const outerRadius = clampRadius(rect, radius)
+  const inset = Math.max(0, Math.min(width, (rect.right - rect.left) / 2, (rect.top - rect.bottom) / 2))
+  const inner = { left: rect.left + inset, top: rect.top - inset, right: rect.right - inset, bottom: rect.bottom + inset }
+  const segments = countSegments(rect.right - rect.left - outerRadius * 2, curveRadius)
+  const outerPoints = outlineRoundedRect(rect, outerRadius, segments)
+  const innerPoints = outlineRoundedRect(inner, clampRadius(inner, outerRadius - inset), segments)
+
+  const positions: number[] = []
+  const indices: number[] = []
+  const vertex = new Vector3()
+  const count = outerPoints.length
+  outerPoints.forEach(([x, y], i) => {
+    bendToCurve(x, y, curveRadius, vertex).applyMatrix4(orientation)
+    positions.push(vertex.x, vertex.y, vertex.z)
+    bendToCurve(innerPoints[i][0], innerPoints[i][1], curveRadius, vertex).applyMatrix4(orientation)
+    positions.push(vertex.x, vertex.y, vertex.z)
+    const next = (i + 1) % count
+    indices.push(i * 2, next * 2, i * 2 + 1, i * 2 + 1, next * 2, next * 2 + 1)
+  })
+  return createGeometry(positions, indices)
+}
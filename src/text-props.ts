@@ -0,0 +1,91 @@
+import { Color } from 'three'
+import { Text } from 'troika-three-text'
+import type { PropOptions } from 'vue'
+import { isNumeric, nullableParser, parseColorRanges, parseFloatArray, parseLength, parseNumber } from './parsers'
+import {
+  anchorValidator, colorValidator, describedValidator, keywordValidator, lengthValidator, nullableValidator, numberValidator,
+  validateColorRanges, validateOrientation, validatePowerOfTwo, validateRect
+} from './validators'
+
+/**
+ * How a change of a prop reaches the screen: `'sync'` lays out the text again, while `'emit'`
+ * only renders it again with the new value.
+ */
+export type TextPropUpdate = 'sync' | 'emit'
+
+/** A prop of the TroikaText components that sets the property of the same name on the Text instance. */
+export interface TextProp {
+  /** The prop declaration, the same in the Vue 2 and the Vue 3 components. */
+  options: PropOptions
+  update: TextPropUpdate
+  /** Parses the string forms of the prop into the value of the instance property. */
+  parse?: (value: never) => unknown
+}
+
+function textProp(update: TextPropUpdate, options: PropOptions, parse?: (value: never) => unknown): TextProp {
+  return { options, update, parse }
+}
+
+const textPropTable = {
+  text: textProp('sync', { type: String, default: '' }),
+  anchorX: textProp('sync', { type: [String, Number], default: 0, validator: anchorValidator('anchorX', ['left', 'center', 'right']) }, parseLength),
+  anchorY: textProp('sync', { type: [String, Number], default: 0, validator: anchorValidator('anchorY', ['top', 'top-baseline', 'middle', 'bottom-baseline', 'bottom']) }, parseLength),
+  curveRadius: textProp('emit', { type: [String, Number], default: 0, validator: numberValidator('curveRadius') }, parseNumber),
+  direction: textProp('sync', { type: String, default: 'auto', validator: keywordValidator('direction', ['auto', 'ltr', 'rtl']) }),
+  font: textProp('sync', { type: String, default: null }),
+  fontSize: textProp('sync', { type: [String, Number], default: 0.1, validator: numberValidator('fontSize') }, parseNumber),
+  letterSpacing: textProp('sync', { type: [String, Number], default: 0, validator: numberValidator('letterSpacing') }, parseNumber),
+  lineHeight: textProp('sync', {
+    type: [String, Number],
+    default: 'normal',
+    validator: describedValidator('lineHeight', "a number or 'normal'", (lineHeight: string | number) => typeof lineHeight === 'number' || isNumeric(lineHeight) || lineHeight === 'normal')
+  }, parseLength),
+  maxWidth: textProp('sync', { type: [String, Number], default: Infinity, validator: numberValidator('maxWidth') }, parseNumber),
+  overflowWrap: textProp('sync', { type: String, default: 'normal', validator: keywordValidator('overflowWrap', ['normal', 'break-word']) }),
+  textAlign: textProp('sync', { type: String, default: 'left', validator: keywordValidator('textAlign', ['left', 'right', 'center', 'justify']) }),
+  textIndent: textProp('sync', { type: [String, Number], default: 0, validator: numberValidator('textIndent') }, parseNumber),
+  whiteSpace: textProp('sync', { type: String, default: 'normal', validator: keywordValidator('whiteSpace', ['normal', 'nowrap']) }),
+  color: textProp('emit', { type: [String, Color, Number], default: null, validator: nullableValidator(colorValidator('color')) }),
+  colorRanges: textProp('sync', { type: [String, Object], default: null, validator: nullableValidator(describedValidator('colorRanges', "character indices mapped to colors, as an object or a string such as '0:red,5:blue'", validateColorRanges)) }, nullableParser(parseColorRanges)),
+  outlineWidth: textProp('emit', { type: [String, Number], default: 0, validator: lengthValidator('outlineWidth') }, parseLength),
+  outlineColor: textProp('emit', { type: [String, Color, Number], default: 0, validator: nullableValidator(colorValidator('outlineColor')) }),
+  outlineOpacity: textProp('emit', { type: [String, Number], default: 1, validator: numberValidator('outlineOpacity') }, parseNumber),
+  outlineBlur: textProp('emit', { type: [String, Number], default: 0, validator: lengthValidator('outlineBlur') }, parseLength),
+  outlineOffsetY: textProp('emit', { type: [String, Number], default: 0, validator: lengthValidator('outlineOffsetY') }, parseLength),
+  outlineOffsetX: textProp('emit', { type: [String, Number], default: 0, validator: lengthValidator('outlineOffsetX') }, parseLength),
+  strokeWidth: textProp('emit', { type: [String, Number], default: 0, validator: lengthValidator('strokeWidth') }, parseLength),
+  strokeColor: textProp('emit', { type: [String, Color, Number], default: 0x808080, validator: nullableValidator(colorValidator('strokeColor')) }),
+  strokeOpacity: textProp('emit', { type: [String, Number], default: 1, validator: numberValidator('strokeOpacity') }, parseNumber),
+  fillOpacity: textProp('emit', { type: [String, Number], default: 1, validator: numberValidator('fillOpacity') }, parseNumber),
+  depthOffset: textProp('emit', { type: [String, Number], default: 0, validator: numberValidator('depthOffset') }, parseNumber),
+  clipRect: textProp('emit', { type: [String, Array], default: null, validator: nullableValidator(describedValidator('clipRect', 'four numbers [minX, minY, maxX, maxY], as an array or a comma-separated string', validateRect)) }, nullableParser(parseFloatArray)),
+  orientation: textProp('emit', { type: String, default: '+x+y', validator: describedValidator('orientation', "two distinct signed axes such as '+x+y' or '+x-z'", validateOrientation) }),
+  glyphGeometryDetail: textProp('emit', { type: [String, Number], default: 1, validator: numberValidator('glyphGeometryDetail') }, parseNumber),
+  sdfGlyphSize: textProp('sync', { type: [String, Number], default: null, validator: nullableValidator(describedValidator('sdfGlyphSize', 'a power of two such as 64', validatePowerOfTwo)) }, nullableParser(parseNumber))
+}
+
+export type TextPropName = keyof typeof textPropTable
+
+/**
+ * The props shared by the TroikaText components of both builds, each setting the property of the
+ * same name on the Text instance. Both builds declare, parse and apply them from this table, so a
+ * prop is only classified as laying out the text again or not here.
+ */
+export const textProps: { readonly [name in TextPropName]: TextProp } = textPropTable
+
+export const textPropNames = Object.keys(textProps) as TextPropName[]
+
+/** The declarations of the shared props, to be spread into the `props` of a component. */
+export const textPropOptions = Object.fromEntries(textPropNames.map((name) => [name, textProps[name].options])) as { [name in TextPropName]: PropOptions }
+
+/** Parses the value of a shared prop into the value of the instance property. */
+export function parseTextProp(name: TextPropName, value: unknown): unknown {
+  const { parse } = textProps[name]
+  return parse ? parse(value as never) : value
+}
+
+/** Parses and sets the value of a shared prop on a Text instance, returning how the change is shown. */
+export function applyTextProp(inst: Text, name: TextPropName, value: unknown): TextPropUpdate {
+  (inst as unknown as Record<TextPropName, unknown>)[name] = parseTextProp(name, value)
+  return textProps[name].update
+}
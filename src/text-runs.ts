@@ -0,0 +1,372 @@
+import { Object3D } from 'three'
+import { TroikaTextRenderInfo, colorInitializer } from 'troika-three-text'
+import { bendToCurve } from './text-plane-geometry'
+
+/** A range of text laid out on a single line by its own Text mesh. */
+export interface TextRun {
+  /** The index of the first character of the run in the whole text. */
+  start: number
+  text: string
+  /** The bidi embedding level of the run, if resolved; odd levels are right-to-left. */
+  level?: number
+}
+
+/** A text run together with the render info of its synced mesh. */
+export interface SyncedTextRun {
+  run: TextRun
+  /** Laid out with `anchorX` 0 and `anchorY` 'top-baseline', so that its baseline starts at the origin. */
+  textRenderInfo: TroikaTextRenderInfo
+}
+
+export interface RunLayoutOptions {
+  text: string
+  textAlign: string
+  textIndent: number
+  /** The width soft-wrapped lines are justified to, when the block isn't wider. */
+  maxWidth: number
+  anchorX: string | number
+  anchorY: string | number
+}
+
+export interface RunLayout {
+  /** The position of the baseline origin of each run, on the text plane. */
+  offsets: { x: number, y: number }[]
+  /** A render info describing the whole block, as if laid out by a single mesh. */
+  textRenderInfo: TroikaTextRenderInfo
+}
+
+/**
+ * Splits runs at line breaks, returning the runs of each line. Empty runs are dropped, except to
+ * keep every line from being empty, so that empty lines still get a height.
+ */
+export function splitRunLines<T extends TextRun>(runs: T[]): T[][] {
+  const lines: T[][] = [[]]
+  runs.forEach((run) => {
+    let start = run.start
+    run.text.split('\n').forEach((text, index) => {
+      if (index) lines.push([])
+      lines[lines.length - 1].push({ ...run, start, text })
+      start += text.length + 1
+    })
+  })
+  return lines.map((line) => {
+    const nonEmpty = line.filter(({ text }) => text)
+    return nonEmpty.length ? nonEmpty : line.slice(0, 1)
+  }).filter((line) => line.length)
+}
+
+/** The index in the whole text of the first character of a line of runs in any order. */
+function getLineStart(line: TextRun[]): number {
+  return Math.min(...line.map(({ start }) => start))
+}
+
+/** The index in the whole text of the character after a line of runs in any order. */
+function getLineEnd(line: TextRun[]): number {
+  return Math.max(...line.map(({ start, text }) => start + text.length))
+}
+
+/** Whether a line of runs was wrapped by `wrapRunLines`, rather than ended by a line break or the text. */
+export function isSoftWrapped(line: TextRun[], text: string): boolean {
+  const end = getLineEnd(line)
+  return end < text.length && text[end] !== '\n'
+}
+
+/**
+ * Finds where lines of synced runs wrap to fit `maxWidth`, measuring their characters by their
+ * carets. As in troika, lines break after whitespace, which may hang past `maxWidth`, and words
+ * longer than a line only break with `breakWords`, as with `overflowWrap='break-word'`. The first
+ * line of each paragraph is shortened by `textIndent`. Returns the indexes in the whole text of
+ * the first characters of the wrapped lines, in ascending order.
+ */
+export function findRunBreaks(lines: SyncedTextRun[][], maxWidth: number, breakWords: boolean, textIndent = 0): number[] {
+  const breaks: number[] = []
+  lines.forEach((line) => {
+    // The runs of a line are in visual order, but wrapping follows the logical one.
+    const runs = line.slice().sort((a, b) => a.run.start - b.run.start)
+    let lineStart = runs[0].run.start
+    let width = textIndent
+    let opportunity = -1
+    let widthAtOpportunity = 0
+    runs.forEach(({ run, textRenderInfo: { caretPositions } }) => {
+      for (let i = 0; i < run.text.length; i++) {
+        const index = run.start + i
+        const charWidth = Math.abs(caretPositions[i * 3 + 1] - caretPositions[i * 3]) || 0
+        width += charWidth
+        if (/\s/.test(run.text[i])) {
+          opportunity = index + 1
+          widthAtOpportunity = width
+          continue
+        }
+        if (width <= maxWidth) continue
+        if (opportunity > lineStart) {
+          breaks.push(lineStart = opportunity)
+          width -= widthAtOpportunity
+        }
+        if (width > maxWidth && breakWords && index > lineStart) {
+          breaks.push(lineStart = index)
+          width = charWidth
+        }
+      }
+    })
+  })
+  return breaks
+}
+
+/**
+ * Splits lines of runs in logical order at the indexes of `findRunBreaks`, starting a new line at
+ * each of them.
+ */
+export function wrapRunLines<T extends TextRun>(lines: T[][], breaks: number[]): T[][] {
+  if (!breaks.length) return lines
+  const wrapped: T[][] = []
+  lines.forEach((line) => {
+    let current: T[] = []
+    wrapped.push(current)
+    line.forEach((run) => {
+      let start = 0
+      breaks.forEach((index) => {
+        const offset = index - run.start
+        if (offset < start || offset >= run.text.length) return
+        if (offset > start) current.push({ ...run, start: run.start + start, text: run.text.slice(start, offset) })
+        if (current.length) wrapped.push(current = [])
+        start = offset
+      })
+      current.push(start ? { ...run, start: run.start + start, text: run.text.slice(start) } : run)
+    })
+  })
+  return wrapped
+}
+
+/**
+ * Splits the runs of a line after each sequence of whitespace followed by more text, so that the
+ * spaces between words can be widened to justify the line.
+ */
+export function splitRunsAtSpaces<T extends TextRun>(line: T[]): T[] {
+  const split: T[] = []
+  line.forEach((run) => {
+    let start = 0
+    for (let i = 1; i < run.text.length; i++) {
+      if (!/\s/.test(run.text[i - 1]) || /\s/.test(run.text[i])) continue
+      split.push({ ...run, start: run.start + start, text: run.text.slice(start, i) })
+      start = i
+    }
+    split.push(start ? { ...run, start: run.start + start, text: run.text.slice(start) } : run)
+  })
+  return split
+}
+
+/**
+ * Extracts the part of a `colorRanges` object covering a run, with the indexes made relative to
+ * the run. The color the run starts in is always included.
+ */
+export function sliceColorRanges(
+  colorRanges: { [index: number]: colorInitializer } | null,
+  start: number,
+  length: number
+): { [index: number]: colorInitializer } | null {
+  if (!colorRanges) return null
+  const slice: { [index: number]: colorInitializer } = {}
+  Object.keys(colorRanges).map(Number).sort((a, b) => a - b).forEach((key) => {
+    if (key <= start) slice[0] = colorRanges[key]
+    else if (key < start + length) slice[key - start] = colorRanges[key]
+  })
+  return slice
+}
+
+/** Splits runs where the bidi embedding level of their characters changes, setting their `level`. */
+export function splitRunsByLevel<T extends TextRun>(runs: T[], levels: Uint8Array): T[] {
+  const split: T[] = []
+  runs.forEach((run) => {
+    let start = 0
+    for (let i = 1; i <= run.text.length; i++) {
+      const level = levels[run.start + start]
+      if (i < run.text.length && levels[run.start + i] === level) continue
+      split.push({ ...run, start: run.start + start, text: run.text.slice(start, i), level })
+      start = i
+    }
+  })
+  return split
+}
+
+/**
+ * Puts the runs of a line in visual order, left to right, by reversing the sequences of runs at
+ * each embedding level from the highest to the lowest odd one, as the bidi algorithm does with
+ * characters.
+ */
+export function orderRunLine<T extends TextRun>(line: T[]): T[] {
+  const levels = line.map(({ level }) => level || 0)
+  const highest = Math.max(...levels)
+  const lowestOdd = Math.min(...levels.map((level) => (level % 2 ? level : level + 1)))
+  const ordered = line.slice()
+  for (let level = highest; level >= lowestOdd; level--) {
+    for (let start = 0; start < ordered.length; start++) {
+      if ((ordered[start].level || 0) < level) continue
+      let end = start
+      while (end + 1 < ordered.length && (ordered[end + 1].level || 0) >= level) end++
+      ordered.splice(start, end - start + 1, ...ordered.slice(start, end + 1).reverse())
+      start = end
+    }
+  }
+  return ordered
+}
+
+function parsePercent(value: string): number {
+  const match = value.match(/^(-?[\d.]+)%$/)
+  return match ? parseFloat(match[1]) / 100 : 0
+}
+
+/** Finds the horizontal extent of the characters of a single-line render info. */
+function getAdvance({ caretPositions, blockBounds }: TroikaTextRenderInfo): [number, number] {
+  if (!caretPositions.length) return [blockBounds[0], blockBounds[0]]
+  let min = Infinity
+  let max = -Infinity
+  for (let i = 0; i < caretPositions.length; i += 3) {
+    min = Math.min(min, caretPositions[i], caretPositions[i + 1])
+    max = Math.max(max, caretPositions[i], caretPositions[i + 1])
+  }
+  return [min, max]
+}
+
+/**
+ * Measures the whitespace of a line of synced runs in logical order: the index of the end of its
+ * last word, before which whitespace is widened to justify the line, and the width of the
+ * whitespace trailing it.
+ */
+function measureSpaces(line: SyncedTextRun[]): { wordsEnd: number, trailingWidth: number } {
+  let wordsEnd = getLineStart(line.map(({ run }) => run))
+  let trailingWidth = 0
+  line.slice().sort((a, b) => a.run.start - b.run.start).forEach(({ run, textRenderInfo: { caretPositions } }) => {
+    for (let i = 0; i < run.text.length; i++) {
+      if (/\s/.test(run.text[i])) {
+        trailingWidth += Math.abs(caretPositions[i * 3 + 1] - caretPositions[i * 3]) || 0
+      } else {
+        wordsEnd = run.start + i + 1
+        trailingWidth = 0
+      }
+    }
+  })
+  return { wordsEnd, trailingWidth }
+}
+
+/**
+ * Lays out the lines of synced text runs side by side, aligning their baselines, then aligns and
+ * anchors the block the same way troika does. Lines are broken at line breaks, and where the runs
+ * were wrapped by `wrapRunLines`. The first line of each paragraph is indented by `textIndent`,
+ * and the soft-wrapped lines of justified text are widened at their spaces, which only moves the
+ * runs following them, so the runs of such lines should be split by `splitRunsAtSpaces`.
+ */
+export function layoutRuns(lines: SyncedTextRun[][], options: RunLayoutOptions): RunLayout {
+  const { text, textAlign, textIndent, maxWidth, anchorX, anchorY } = options
+  const metrics = lines.map((line) => {
+    const lineStart = getLineStart(line.map(({ run }) => run))
+    const advances = line.map(({ textRenderInfo }) => getAdvance(textRenderInfo))
+    const indent = lineStart === 0 || text[lineStart - 1] === '\n' ? textIndent : 0
+    return {
+      advances,
+      indent,
+      width: advances.reduce((sum, [min, max]) => sum + max - min, indent),
+      softWrapped: isSoftWrapped(line.map(({ run }) => run), text),
+      above: Math.max(...line.map(({ textRenderInfo }) => textRenderInfo.blockBounds[3])),
+      below: Math.max(...line.map(({ textRenderInfo }) => -textRenderInfo.blockBounds[1]))
+    }
+  })
+  // As in troika, the block takes the whole `maxWidth` once a line is soft-wrapped.
+  const width = Math.max(...metrics.map(({ width }) => width), metrics.some(({ softWrapped }) => softWrapped) ? maxWidth : -Infinity)
+  const height = metrics.reduce((sum, { above, below }) => sum + above + below, 0)
+
+  const left = typeof anchorX === 'number' ? -anchorX : -width * (
+    anchorX === 'left' ? 0
+      : anchorX === 'center' ? 0.5
+        : anchorX === 'right' ? 1
+          : parsePercent(anchorX)
+  )
+  const lastLine = metrics[metrics.length - 1]
+  const top = typeof anchorY === 'number' ? -anchorY
+    : anchorY === 'top' ? 0
+      : anchorY === 'top-baseline' ? metrics[0].above
+        : anchorY === 'middle' ? height / 2
+          : anchorY === 'bottom' ? height
+            : anchorY === 'bottom-baseline' ? height - lastLine.below
+              : parsePercent(anchorY) * height
+  const alignFactor = textAlign === 'center' ? 0.5 : textAlign === 'right' ? 1 : 0
+
+  const caretPositions = new Float32Array(text.length * 3)
+  const visibleBounds = [Infinity, Infinity, -Infinity, -Infinity]
+  const offsets: RunLayout['offsets'] = []
+  let lineTop = top
+  lines.forEach((line, lineIndex) => {
+    const { advances, indent, width: lineWidth, softWrapped, above, below } = metrics[lineIndex]
+    const baseline = lineTop - above
+    // Like troika, only soft-wrapped lines are justified, widening the spaces between their words.
+    const { wordsEnd, trailingWidth } = measureSpaces(line)
+    let justifyAdjust = 0
+    if (textAlign === 'justify' && softWrapped) {
+      const spaces = line.reduce((count, { run }) => count + run.text.slice(0, Math.max(0, wordsEnd - run.start)).replace(/\S/g, '').length, 0)
+      if (spaces) justifyAdjust = (width - lineWidth + trailingWidth) / spaces
+    }
+    // Carets share a bottom per line, since the hit testing groups them into lines by it.
+    // Like troika, the carets of a run are centered on its line box.
+    const caretBottom = Math.min(...line.map(({ textRenderInfo: { blockBounds, caretHeight } }) => {
+      return (blockBounds[1] + blockBounds[3] - caretHeight) / 2
+    })) + baseline
+    let x = left + (width - lineWidth) * alignFactor + indent
+    line.forEach(({ run, textRenderInfo }, runIndex) => {
+      const [min, max] = advances[runIndex]
+      const offsetX = x - min
+      offsets.push({ x: offsetX, y: baseline })
+      const runCarets = textRenderInfo.caretPositions
+      let spread = 0
+      for (let i = 0; i * 3 < runCarets.length; i++) {
+        const index = (run.start + i) * 3
+        const adjust = justifyAdjust && run.start + i < wordsEnd && /\s/.test(run.text[i]) ? justifyAdjust : 0
+        caretPositions[index] = runCarets[i * 3] + offsetX + spread
+        caretPositions[index + 1] = runCarets[i * 3 + 1] + offsetX + spread + adjust
+        caretPositions[index + 2] = caretBottom
+        spread += adjust
+      }
+      const [minX, minY, maxX, maxY] = textRenderInfo.visibleBounds
+      if (minX <= maxX) {
+        visibleBounds[0] = Math.min(visibleBounds[0], minX + offsetX)
+        visibleBounds[1] = Math.min(visibleBounds[1], minY + baseline)
+        visibleBounds[2] = Math.max(visibleBounds[2], maxX + offsetX)
+        visibleBounds[3] = Math.max(visibleBounds[3], maxY + baseline)
+      }
+      x += max - min + spread
+    })
+    // The line break ending the line gets a caret at the end of the line.
+    const breakIndex = getLineEnd(line.map(({ run }) => run))
+    if (lineIndex < lines.length - 1 && breakIndex < text.length) {
+      caretPositions.set([x, x, caretBottom], breakIndex * 3)
+    }
+    lineTop -= above + below
+  })
+
+  const first = lines[0][0].textRenderInfo
+  return {
+    offsets,
+    textRenderInfo: Object.freeze({
+      ...first,
+      parameters: { ...first.parameters, text, textAlign, anchorX, anchorY },
+      glyphBounds: new Float32Array(0),
+      glyphAtlasIndices: new Float32Array(0),
+      glyphColors: new Uint8Array(0),
+      caretPositions,
+      caretHeight: Math.max(...lines.map((line) => Math.max(...line.map(({ textRenderInfo }) => textRenderInfo.caretHeight)))),
+      lineHeight: metrics[0].above + metrics[0].below,
+      topBaseline: -metrics[0].above,
+      blockBounds: [left, top - height, left + width, top],
+      visibleBounds: visibleBounds[0] <= visibleBounds[2] ? visibleBounds : [left, top, left, top],
+      chunkedBounds: []
+    })
+  }
+}
+
+/**
+ * Places the mesh of a run at its offset on the text plane. With a `curveRadius`, the mesh is
+ * moved around the cylinder and turned to face its axis, so that the run's own curvature lines
+ * up with the curvature of the whole block.
+ */
+export function placeRun(mesh: Object3D, x: number, y: number, curveRadius: number): void {
+  bendToCurve(x, y, curveRadius, mesh.position)
+  mesh.rotation.set(0, curveRadius ? -x / curveRadius : 0, 0)
+}
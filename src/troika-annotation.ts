@@ -0,0 +1,326 @@
+import {
+  BufferGeometry, Camera, Color, Float32BufferAttribute, Line, LineBasicMaterial, MeshBasicMaterial,
+  Object3D, Raycaster, Scene, Vector2, Vector3, WebGLRenderer
+} from 'three'
+import { colorInitializer } from 'troika-three-text'
+import { VueConstructor } from 'vue'
+import { applyBillboard, hookBeforeRender } from './billboard'
+import { nullableParser, parseColor, parseNumber, parseVector3 } from './parsers'
+import TroikaText, { TroikaTextType } from './troika-text'
+import { colorValidator, numberValidator } from './validators'
+import { VglNamespaceMap } from './vue-gl-types'
+
+interface TroikaAnnotationProps {
+  /**
+   * @default null
+   * What the annotation points at: the name of a VueGL object, or a position in world space as a
+   * vector or a `'x y z'` string. While set, the annotation is moved to the target every frame,
+   * overriding its `position`.
+   */
+  target: string | Vector3 | (string | number)[] | null
+
+  /**
+   * @default null
+   * The offset from the target to the anchor of the text block, in world units, as a vector or
+   * a `'x y z'` string.
+   */
+  offset: string | Vector3 | (string | number)[] | null
+
+  /**
+   * @default true
+   * Whether a leader line is drawn from the target to the anchor of the text block.
+   */
+  leaderLine: boolean
+
+  /**
+   * @default 0xffffff
+   * The color of the leader line.
+   */
+  leaderColor: colorInitializer
+
+  /**
+   * @default 1
+   * The opacity of the leader line.
+   */
+  leaderOpacity: string | number
+
+  /**
+   * @default false
+   * Whether the annotation fades out while its target is off the screen.
+   */
+  fadeOffscreen: boolean
+
+  /**
+   * @default false
+   * Whether the annotation fades out while its target is hidden behind other objects of the
+   * scene, found by casting a ray from the camera to the target every frame.
+   */
+  fadeOccluded: boolean
+
+  /**
+   * @default 0
+   * The opacity of the annotation, relative to its own opacities, once faded out.
+   */
+  fadedOpacity: string | number
+
+  /**
+   * @default 0.2
+   * The duration of the fades in seconds.
+   */
+  fadeDuration: string | number
+}
+
+interface TroikaAnnotationData {
+  /** Whether the target is visible, as of the last rendered frame. */
+  targetVisible: boolean
+}
+
+interface TroikaAnnotationComputed {
+  /** The leader line, a child of the instance. */
+  get leader(): Line
+  /** The name of the target object, or null if the target is a position. */
+  get targetName(): string | null
+  /** The position of the target in world space, or null if the target is an object. */
+  get targetPosition(): Vector3 | null
+  get offsetVector(): Vector3 | null
+  /** Overrides the one of TroikaText, as the annotation moves before each render. */
+  get frustumCulled(): boolean
+  /** Overrides the one of TroikaText, as the fades change the opacities of the instance. */
+  get batched(): boolean
+}
+
+interface TroikaAnnotationMethods {
+  setTargetObject(object?: Object3D): void
+  /** Gets the position of the target in world space, or null if there is no target. */
+  getTargetPosition(target: Vector3): Vector3 | null
+  /** Whether an object belongs to the annotation or to its target, which can't hide the target. */
+  isOwnObject(object: Object3D): boolean
+  /** Whether the target is on the screen and not occluded, as far as the fades are concerned. */
+  isTargetVisible(target: Vector3, camera: Camera, scene: Scene): boolean
+  /** Moves the fade toward the visibility of the target, and applies it to the opacities. */
+  updateFade(visible: boolean): void
+  /** Overrides the one of TroikaText to move the text to the target first. */
+  transformText(camera: Camera, renderer: WebGLRenderer): void
+  /** Overrides the one of TroikaText to also update the leader line and the fade. */
+  beforeRender(camera: Camera, renderer: WebGLRenderer, scene: Scene): void
+}
+
+/** Non-reactive state of the annotation. */
+interface TroikaAnnotationState {
+  /** The object named by the `target`. */
+  targetObject?: Object3D
+  /** The current opacity factor of the fade. */
+  fade?: number
+  /** The time of the last fade update, in milliseconds. */
+  fadeTime?: number
+  /** The frame of the renderer last prepared for, so that it is done once per frame. */
+  renderFrame?: number
+  /** The id of the animation frame requested to render the next step of a fade. */
+  fadeFrameRequest?: number
+}
+
+export type TroikaAnnotationType =
+  TroikaAnnotationData &
+  TroikaAnnotationComputed &
+  TroikaAnnotationMethods &
+  TroikaAnnotationState &
+  TroikaAnnotationProps &
+  TroikaTextType
+
+const targetPosition = new Vector3()
+const tempVec2 = new Vector2()
+const tempVec3 = new Vector3()
+const raycaster = new Raycaster()
+raycaster.params.Line = { threshold: 0 }
+raycaster.params.Points = { threshold: 0 }
+
+/** The longest step of a fade in seconds, so that the first frame after an idle time doesn't skip it. */
+const maxFadeStep = 0.05
+
+/**
+ * A TroikaText pointing at a target, which is either a VueGL object or a position, with a leader
+ * line from the target to the anchor of the text block. The props of the background of TroikaText
+ * draw a panel behind the text. It can fade out while the target is off the screen or occluded.
+ *
+ * Emits `visibility-change` with whether the target is visible when that changes.
+ */
+const TroikaAnnotation = (TroikaText as VueConstructor<TroikaTextType>).extend<TroikaAnnotationData, TroikaAnnotationMethods, TroikaAnnotationComputed, TroikaAnnotationProps>({
+  props: {
+    target: { type: [String, Vector3, Array], default: null },
+    offset: { type: [String, Vector3, Array], default: null },
+    leaderLine: { type: Boolean, default: true },
+    leaderColor: { type: [String, Color, Number], default: 0xffffff, validator: colorValidator('leaderColor') },
+    leaderOpacity: { type: [String, Number], default: 1, validator: numberValidator('leaderOpacity') },
+    fadeOffscreen: { type: Boolean, default: false },
+    fadeOccluded: { type: Boolean, default: false },
+    fadedOpacity: { type: [String, Number], default: 0, validator: numberValidator('fadedOpacity') },
+    fadeDuration: { type: [String, Number], default: 0.2, validator: numberValidator('fadeDuration') }
+  },
+
+  data(): TroikaAnnotationData {
+    return {
+      targetVisible: true
+    }
+  },
+
+  computed: {
+    leader(this: TroikaAnnotationType): Line {
+      const geometry = new BufferGeometry()
+      geometry.setAttribute('position', new Float32BufferAttribute(6, 3))
+      const line = new Line(geometry, new LineBasicMaterial({ transparent: true }))
+      // Its vertices follow the target every frame.
+      line.frustumCulled = false
+      hookBeforeRender(line, this.beforeRender)
+      return line
+    },
+    targetName(this: TroikaAnnotationType): string | null {
+      return typeof this.target === 'string' && !/^\s*[-+\d.]/.test(this.target) ? this.target : null
+    },
+    targetPosition(this: TroikaAnnotationType): Vector3 | null {
+      return this.target == null || this.targetName !== null ? null : parseVector3(this.target)
+    },
+    offsetVector(this: TroikaAnnotationType): Vector3 | null {
+      return nullableParser(parseVector3)(this.offset)
+    },
+    frustumCulled(this: TroikaAnnotationType): boolean {
+      // Culling would use the position of the last frame, and not render the one moving to the target.
+      return this.target == null && !this.billboardOptions && this.path == null
+    },
+    batched(this: TroikaAnnotationType): boolean {
+      return !!this.troikaTextBatch && this.batchable && !this.fadeOffscreen && !this.fadeOccluded
+    }
+  },
+
+  methods: {
+    setTargetObject(this: TroikaAnnotationType, object?: Object3D): void {
+      this.targetObject = object
+      this.requestEmit()
+    },
+    getTargetPosition(this: TroikaAnnotationType, target: Vector3): Vector3 | null {
+      if (this.targetObject) return this.targetObject.getWorldPosition(target)
+      return this.targetPosition && target.copy(this.targetPosition)
+    },
+    isOwnObject(this: TroikaAnnotationType, object: Object3D): boolean {
+      for (let ancestor: Object3D | null = object; ancestor; ancestor = ancestor.parent) {
+        if (ancestor === this.inst || ancestor === this.targetObject) return true
+      }
+      return false
+    },
+    isTargetVisible(this: TroikaAnnotationType, target: Vector3, camera: Camera, scene: Scene): boolean {
+      const { x, y, z } = tempVec3.copy(target).project(camera)
+      // Targets behind the camera are off the screen, and can't be tested for occlusion.
+      if (z < -1 || z > 1) return !this.fadeOffscreen
+      if (this.fadeOffscreen && (Math.abs(x) > 1 || Math.abs(y) > 1)) return false
+      if (!this.fadeOccluded) return true
+      raycaster.setFromCamera(tempVec2.set(x, y), camera)
+      raycaster.far = raycaster.ray.origin.distanceTo(target) * (1 - 1e-3)
+      return !raycaster.intersectObject(scene, true).some(({ object }) => !this.isOwnObject(object))
+    },
+    updateFade(this: TroikaAnnotationType, visible: boolean): void {
+      const goal = visible ? 1 : parseNumber(this.fadedOpacity)
+      const now = performance.now()
+      const elapsed = this.fadeTime === undefined ? 0 : Math.min(maxFadeStep, (now - this.fadeTime) / 1000)
+      const fadeDuration = parseNumber(this.fadeDuration)
+      const step = fadeDuration > 0 ? elapsed / fadeDuration : Infinity
+      const fade = this.fade === undefined ? goal : this.fade
+      this.fade = goal > fade ? Math.min(goal, fade + step) : Math.max(goal, fade - step)
+      this.fadeTime = now
+
+      const meshes = [this.inst, ...(this.runMeshes || [])]
+      meshes.forEach((mesh) => {
+        mesh.fillOpacity = parseNumber(this.fillOpacity) * (this.fade as number)
+        mesh.outlineOpacity = parseNumber(this.outlineOpacity) * (this.fade as number)
+        mesh.strokeOpacity = parseNumber(this.strokeOpacity) * (this.fade as number)
+      })
+      ;(this.leader.material as LineBasicMaterial).opacity = parseNumber(this.leaderOpacity) * this.fade
+      ;[this.backgroundFill, this.backgroundBorder].forEach((mesh) => {
+        (mesh.material as MeshBasicMaterial).opacity = parseNumber(this.backgroundOpacity) * (this.fade as number)
+      })
+
+      // Renders are requested on changes only, so the fade requests its next steps itself.
+      if (this.fade !== goal && this.fadeFrameRequest === undefined) {
+        this.fadeFrameRequest = requestAnimationFrame(() => {
+          this.fadeFrameRequest = undefined
+          this.vglObject3d.emit()
+        })
+      }
+      if (visible !== this.targetVisible) {
+        this.targetVisible = visible
+        this.$emit('visibility-change', visible)
+      }
+    },
+    transformText(this: TroikaAnnotationType, camera: Camera, renderer: WebGLRenderer): void {
+      const target = this.getTargetPosition(targetPosition)
+      if (target) {
+        if (this.offsetVector) target.add(this.offsetVector)
+        const { parent } = this.inst
+        this.inst.position.copy(target)
+        if (parent) parent.worldToLocal(this.inst.position)
+        this.inst.updateMatrixWorld(true)
+      }
+      if (this.billboardOptions) applyBillboard(this.inst, camera, renderer, this.billboardOptions)
+    },
+    beforeRender(this: TroikaAnnotationType, camera: Camera, renderer: WebGLRenderer, scene: Scene): void {
+      // Every mesh of the annotation calls this, but the world matrices are overridden until the next frame.
+      const frame = renderer.info.autoReset ? renderer.info.render.frame : NaN
+      if (frame === this.renderFrame) return
+      this.renderFrame = frame
+      this.transformText(camera, renderer)
+
+      const target = this.getTargetPosition(targetPosition)
+      this.leader.visible = this.leaderLine && !!target
+      if (target) {
+        const position = (this.leader.geometry as BufferGeometry).getAttribute('position') as Float32BufferAttribute
+        position.setXYZ(1, ...this.inst.worldToLocal(target).toArray() as [number, number, number])
+        position.needsUpdate = true
+        this.inst.localToWorld(target)
+      }
+      this.updateFade(!target || this.isTargetVisible(target, camera, scene))
+    }
+  },
+
+  watch: {
+    inst: {
+      immediate: true,
+      handler(this: TroikaAnnotationType, inst: Object3D): void {
+        inst.add(this.leader)
+      }
+    },
+    leaderColor(this: TroikaAnnotationType, color: colorInitializer): void {
+      (this.leader.material as LineBasicMaterial).color.copy(parseColor(color))
+      this.requestEmit()
+    },
+    leaderLine(this: TroikaAnnotationType): void {
+      this.requestEmit()
+    },
+    targetName(this: TroikaAnnotationType, name: string | null, oldName: string | null): void {
+      const object3ds = this.vglNamespace.object3ds as VglNamespaceMap<Object3D>
+      if (oldName !== null) object3ds.unlisten(oldName, this.setTargetObject)
+      if (name !== null) object3ds.listen(name, this.setTargetObject)
+      this.setTargetObject(name === null ? undefined : object3ds.get(name))
+    },
+    targetPosition(this: TroikaAnnotationType): void {
+      this.requestEmit()
+    },
+    offsetVector(this: TroikaAnnotationType): void {
+      this.requestEmit()
+    }
+  },
+
+  created(this: TroikaAnnotationType): void {
+    (this.leader.material as LineBasicMaterial).color.copy(parseColor(this.leaderColor))
+    if (this.targetName === null) return
+    const object3ds = this.vglNamespace.object3ds as VglNamespaceMap<Object3D>
+    object3ds.listen(this.targetName, this.setTargetObject)
+    this.setTargetObject(object3ds.get(this.targetName))
+  },
+
+  beforeDestroy(this: TroikaAnnotationType): void {
+    if (this.targetName !== null) (this.vglNamespace.object3ds as VglNamespaceMap<Object3D>).unlisten(this.targetName, this.setTargetObject)
+    if (this.fadeFrameRequest !== undefined) cancelAnimationFrame(this.fadeFrameRequest)
+    this.leader.geometry.dispose()
+    ;(this.leader.material as LineBasicMaterial).dispose()
+  }
+}) as VueConstructor<TroikaAnnotationType>
+
+export default TroikaAnnotation
@@ -0,0 +1,162 @@
+import { Camera, Color, Matrix4, Object3D, Texture, WebGLRenderer } from 'three'
+import { TroikaTextRenderInfo } from 'troika-three-text'
+import Vue, { VueConstructor } from 'vue'
+import { VglObject3d } from 'vue-gl'
+import { hookBeforeRender } from './billboard'
+import { GlyphBatch, createGlyphBatch, disposeGlyphBatch, prepareGlyphBatch, setBatchGlyphs, setBatchTransform } from './glyph-batch'
+import { getOrientationMatrix } from './hit-testing'
+import { parseColor } from './parsers'
+import { VglObject3dType } from './vue-gl-types'
+import type { TroikaTextType } from './troika-text'
+
+interface TroikaTextBatchComputed {
+  get inst(): Object3D
+}
+
+interface TroikaTextBatchMethods {
+  /** Registers a TroikaText descendant, which is drawn by the batch while it is `batched`. */
+  addMember(member: TroikaTextType): void
+  removeMember(member: TroikaTextType): void
+  /**
+   * Marks the glyphs of the batch as dirty, after a member was laid out or changed in a way that
+   * isn't applied on each frame. They are filled again at next tick, just once.
+   */
+  invalidate(): void
+  /** Fills the batches with the glyphs of the members, a batch per SDF texture. */
+  rebuild(): void
+  /**
+   * Applies the transforms and the visibility of the members drawn by a batch, right before it
+   * is rendered.
+   */
+  prepareBatch(texture: Texture, camera: Camera, renderer: WebGLRenderer): void
+}
+
+/** Non-reactive state of the batch. */
+interface TroikaTextBatchState {
+  members?: TroikaTextType[]
+  /** The batch of each SDF texture, and the members it draws in order. */
+  batches?: Map<Texture, { batch: GlyphBatch, members: TroikaTextType[] }>
+  rebuildReserved?: boolean
+}
+
+export type TroikaTextBatchType =
+  TroikaTextBatchComputed &
+  TroikaTextBatchMethods &
+  TroikaTextBatchState &
+  VglObject3dType
+
+const batchInverse = new Matrix4()
+const memberMatrix = new Matrix4()
+const orientationMatrix = new Matrix4()
+
+/** Whether an object and all of its ancestors are visible. */
+function isWorldVisible(object: Object3D): boolean {
+  for (let ancestor: Object3D | null = object; ancestor; ancestor = ancestor.parent) {
+    if (!ancestor.visible) return false
+  }
+  return true
+}
+
+/**
+ * A container drawing the glyphs of the TroikaText components among its descendants with a single
+ * mesh per SDF texture, which is usually one, instead of a draw call per text. Each member keeps
+ * its own Text instance, laid out, transformed and raycast as usual but not drawn, and the batch
+ * draws its glyphs with its color, its `colorRanges`, its world transform, its `orientation`,
+ * its billboard and its visibility, applied before each render.
+ *
+ * Members using styles that can't be batched are drawn on their own: a `material`, an outline, a
+ * stroke, a `fillOpacity` below 1, a `clipRect`, a `curveRadius`, a `path`, an `animation`, a
+ * `depthOffset` or styled runs needing meshes of their own. Backgrounds and other children of the
+ * members are drawn on their own too.
+ */
+const TroikaTextBatch = (Vue.extend(VglObject3d) as VueConstructor<VglObject3dType>).extend<unknown, TroikaTextBatchMethods, TroikaTextBatchComputed, unknown>({
+  mixins: [VglObject3d],
+
+  provide(): { troikaTextBatch: Vue } {
+    return { troikaTextBatch: this }
+  },
+
+  computed: {
+    inst(): Object3D {
+      return new Object3D()
+    }
+  },
+
+  methods: {
+    addMember(this: TroikaTextBatchType, member: TroikaTextType): void {
+      const members = this.members || (this.members = [])
+      members.push(member)
+      this.invalidate()
+    },
+    removeMember(this: TroikaTextBatchType, member: TroikaTextType): void {
+      const members = this.members || []
+      const index = members.indexOf(member)
+      if (index >= 0) members.splice(index, 1)
+      this.invalidate()
+    },
+    invalidate(this: TroikaTextBatchType): void {
+      if (this.rebuildReserved) return
+      this.rebuildReserved = true
+      this.$nextTick(this.rebuild)
+    },
+    rebuild(this: TroikaTextBatchType): void {
+      this.rebuildReserved = false
+      const groups = new Map<Texture, TroikaTextType[]>()
+      const members = this.members || []
+      members.forEach((member) => {
+        const { textRenderInfo } = member.inst
+        if (!member.batched || !textRenderInfo) return
+        const group = groups.get(textRenderInfo.sdfTexture)
+        if (group) group.push(member)
+        else groups.set(textRenderInfo.sdfTexture, [member])
+      })
+
+      const batches = this.batches || (this.batches = new Map())
+      batches.forEach(({ batch }, texture) => {
+        if (groups.has(texture)) return
+        this.inst.remove(batch.mesh)
+        disposeGlyphBatch(batch)
+        batches.delete(texture)
+      })
+      groups.forEach((group, texture) => {
+        let entry = batches.get(texture)
+        if (!entry) {
+          const batch = createGlyphBatch()
+          hookBeforeRender(batch.mesh, (camera, renderer) => this.prepareBatch(texture, camera, renderer))
+          this.inst.add(batch.mesh)
+          batches.set(texture, entry = { batch, members: [] })
+        }
+        entry.members = group
+        setBatchGlyphs(entry.batch, group.map((member) => ({
+          textRenderInfo: member.inst.textRenderInfo as TroikaTextRenderInfo,
+          color: member.color == null ? new Color(0xffffff) : parseColor(member.color)
+        })))
+      })
+      this.vglObject3d.emit()
+    },
+    prepareBatch(this: TroikaTextBatchType, texture: Texture, camera: Camera, renderer: WebGLRenderer): void {
+      const entry = this.batches && this.batches.get(texture)
+      if (!entry) return
+      const { batch, members } = entry
+      batchInverse.getInverse(batch.mesh.matrixWorld)
+      members.forEach((member, index) => {
+        if (!isWorldVisible(member.inst)) {
+          setBatchTransform(batch, index, null)
+          return
+        }
+        // Billboarded members face the camera as they would if drawn on their own.
+        member.transformText(camera, renderer)
+        memberMatrix.multiplyMatrices(batchInverse, member.inst.matrixWorld)
+        setBatchTransform(batch, index, memberMatrix.multiply(getOrientationMatrix(member.orientation, orientationMatrix)))
+      })
+      prepareGlyphBatch(batch)
+    }
+  },
+
+  destroyed(this: TroikaTextBatchType): void {
+    if (this.batches) this.batches.forEach(({ batch }) => disposeGlyphBatch(batch))
+    this.batches = this.members = undefined
+  }
+}) as VueConstructor<TroikaTextBatchType>
+
+export default TroikaTextBatch
@@ -0,0 +1,288 @@
+import { Color } from 'three'
+import { colorInitializer } from 'troika-three-text'
+import { CreateElement, VNode, VueConstructor } from 'vue'
+import TroikaText, { TroikaTextType } from './troika-text'
+import TroikaTextSelection from './troika-text-selection'
+import { parseNumber } from './parsers'
+import { colorValidator, nullableValidator, numberValidator } from './validators'
+
+interface TroikaTextInputProps {
+  /**
+   * @default ''
+   * The value of the input, bound with `v-model`.
+   */
+  value: string
+
+  /**
+   * @default null
+   * The maximum number of characters of the value. Unlimited if null.
+   */
+  maxLength: string | number | null
+
+  /**
+   * @default false
+   * Whether line breaks can be entered. Single-line inputs ignore the enter key and replace
+   * pasted line breaks with spaces.
+   */
+  multiline: boolean
+
+  /**
+   * @default 0x3390ff
+   * The color of the highlight drawn behind the selected characters.
+   */
+  selectionColor: colorInitializer
+
+  /**
+   * @default 0.4
+   * The opacity of the highlight drawn behind the selected characters.
+   */
+  selectionOpacity: string | number
+
+  /**
+   * @default 0xffffff
+   * The color of the caret.
+   */
+  caretColor: colorInitializer
+}
+
+interface TroikaTextInputData {
+  /** The value being edited, including any uncommitted IME composition. */
+  draft: string
+  selectionStart: number
+  selectionEnd: number
+  /** Whether the hidden textarea has the keyboard focus. */
+  focused: boolean
+  /** Whether an IME composition is in progress. */
+  composing: boolean
+}
+
+interface TroikaTextInputMethods {
+  /** Gives the keyboard focus to the input. */
+  focus(): void
+  /** Removes the keyboard focus from the input. */
+  blur(): void
+  /** Copies the selection of the hidden textarea, which follows the keyboard. */
+  updateSelection(): void
+  handleInput(): void
+  handleKeyDown(event: KeyboardEvent): void
+  handleCompositionStart(): void
+  handleCompositionEnd(): void
+  handleFocus(): void
+  handleBlur(): void
+  handleSelectionChange(event: { selectionStart: number, selectionEnd: number }): void
+  handleTextPointerDown(): void
+}
+
+/** Non-reactive state of the input. */
+interface TroikaTextInputState {
+  /** The hidden textarea receiving the keyboard input. */
+  textarea?: HTMLTextAreaElement
+}
+
+export type TroikaTextInputType =
+  TroikaTextInputData &
+  TroikaTextInputMethods &
+  TroikaTextInputState &
+  TroikaTextInputProps &
+  TroikaTextType
+
+/** The events of the hidden textarea that the TroikaTextInput component listens to. */
+const textareaEventNames: [string, keyof TroikaTextInputMethods][] = [
+  ['input', 'handleInput'],
+  ['keydown', 'handleKeyDown'],
+  ['keyup', 'updateSelection'],
+  ['select', 'updateSelection'],
+  ['compositionstart', 'handleCompositionStart'],
+  ['compositionend', 'handleCompositionEnd'],
+  ['focus', 'handleFocus'],
+  ['blur', 'handleBlur']
+]
+
+/**
+ * An editable text component supporting `v-model`, rendered with the props of TroikaText.
+ * Keyboard input, caret movement, selection and IME composition are handled by a visually hidden
+ * textarea, which is focused when the text is clicked. The textarea is also what screen readers
+ * read and focus, labeled by `ariaLabel`, so it stands in for the mirror of `accessible`.
+ *
+ * Emits `input` with the new value, except during an IME composition, and `focus` and `blur`.
+ */
+const TroikaTextInput = (TroikaText as VueConstructor<TroikaTextType>).extend<TroikaTextInputData, TroikaTextInputMethods, unknown, TroikaTextInputProps>({
+  props: {
+    value: { type: String, default: '' },
+    maxLength: { type: [String, Number], default: null, validator: nullableValidator(numberValidator('maxLength')) },
+    multiline: { type: Boolean, default: false },
+    selectionColor: { type: [String, Color, Number], default: 0x3390ff, validator: colorValidator('selectionColor') },
+    selectionOpacity: { type: [String, Number], default: 0.4, validator: numberValidator('selectionOpacity') },
+    caretColor: { type: [String, Color, Number], default: 0xffffff, validator: nullableValidator(colorValidator('caretColor')) }
+  },
+
+  data(): TroikaTextInputData {
+    return {
+      draft: this.value,
+      selectionStart: this.value.length,
+      selectionEnd: this.value.length,
+      focused: false,
+      composing: false
+    }
+  },
+
+  computed: {
+    plainText(this: TroikaTextInputType): string {
+      return this.draft
+    },
+    mirrorOptions(): null {
+      return null
+    }
+  },
+
+  methods: {
+    focus(this: TroikaTextInputType): void {
+      if (this.textarea) this.textarea.focus()
+    },
+    blur(this: TroikaTextInputType): void {
+      if (this.textarea) this.textarea.blur()
+    },
+    updateSelection(this: TroikaTextInputType): void {
+      if (!this.textarea) return
+      this.selectionStart = this.textarea.selectionStart
+      this.selectionEnd = this.textarea.selectionEnd
+    },
+    handleInput(this: TroikaTextInputType): void {
+      const { textarea } = this
+      if (!textarea) return
+      let { value } = textarea
+      if (!this.multiline) value = value.replace(/\r?\n/g, ' ')
+      // Native `maxlength` is not enforced on IME compositions by every browser.
+      if (!this.composing && this.maxLength != null) value = value.slice(0, parseNumber(this.maxLength))
+      if (value !== textarea.value) textarea.value = value
+      this.draft = value
+      this.updateSelection()
+      if (!this.composing) this.$emit('input', value)
+    },
+    handleKeyDown(this: TroikaTextInputType, event: KeyboardEvent): void {
+      if (event.key === 'Enter' && !this.multiline) event.preventDefault()
+      // The caret moves after the default action of the key.
+      setTimeout(this.updateSelection)
+    },
+    handleCompositionStart(this: TroikaTextInputType): void {
+      this.composing = true
+    },
+    handleCompositionEnd(this: TroikaTextInputType): void {
+      this.composing = false
+      this.handleInput()
+    },
+    handleFocus(this: TroikaTextInputType): void {
+      this.focused = true
+      this.$emit('focus')
+    },
+    handleBlur(this: TroikaTextInputType): void {
+      this.focused = false
+      this.$emit('blur')
+    },
+    handleSelectionChange(this: TroikaTextInputType, { selectionStart, selectionEnd }: { selectionStart: number, selectionEnd: number }): void {
+      if (this.textarea) this.textarea.setSelectionRange(selectionStart, selectionEnd)
+      this.selectionStart = selectionStart
+      this.selectionEnd = selectionEnd
+    },
+    handleTextPointerDown(this: TroikaTextInputType): void {
+      // Focusing right away would be undone by the default action of the following mousedown.
+      setTimeout(this.focus)
+    }
+  },
+
+  watch: {
+    value(this: TroikaTextInputType, value: string): void {
+      if (value === this.draft) return
+      this.draft = value
+      if (this.textarea) {
+        this.textarea.value = value
+        this.updateSelection()
+      } else {
+        this.selectionStart = Math.min(this.selectionStart, value.length)
+        this.selectionEnd = Math.min(this.selectionEnd, value.length)
+      }
+    },
+    maxLength(this: TroikaTextInputType, maxLength: string | number | null): void {
+      if (!this.textarea) return
+      if (maxLength == null) this.textarea.removeAttribute('maxlength')
+      else this.textarea.maxLength = parseNumber(maxLength)
+    },
+    ariaLabel(this: TroikaTextInputType, ariaLabel: string | null): void {
+      if (!this.textarea) return
+      if (ariaLabel == null) this.textarea.removeAttribute('aria-label')
+      else this.textarea.setAttribute('aria-label', ariaLabel)
+    }
+  },
+
+  render(this: TroikaTextInputType, h: CreateElement): VNode {
+    const slot = this.$scopedSlots.default
+    return h('div', { style: { display: 'none' } }, [
+      h(TroikaTextSelection, {
+        props: {
+          selectionStart: this.selectionStart,
+          selectionEnd: this.selectionEnd,
+          selectionColor: this.selectionColor,
+          selectionOpacity: this.selectionOpacity,
+          caretColor: this.caretColor,
+          hideCaret: !this.focused,
+          selectable: true
+        },
+        on: { 'selection-change': this.handleSelectionChange }
+      }),
+      ...(slot && slot({
+        textRenderInfo: this.textRenderInfo,
+        bounds: this.bounds,
+        fontSize: this.resolvedFontSize,
+        truncated: this.truncated,
+        fullText: this.plainText
+      })) || []
+    ])
+  },
+
+  created(this: TroikaTextInputType): void {
+    this.$on('pointerdown', this.handleTextPointerDown)
+  },
+
+  mounted(this: TroikaTextInputType): void {
+    const textarea = document.createElement('textarea')
+    textarea.value = this.draft
+    if (this.ariaLabel != null) textarea.setAttribute('aria-label', this.ariaLabel)
+    textarea.setAttribute('autocomplete', 'off')
+    textarea.setAttribute('spellcheck', 'false')
+    if (this.maxLength != null) textarea.maxLength = parseNumber(this.maxLength)
+    // Visually hidden only, so that it is still read by screen readers, focusable and able to host
+    // an IME composition.
+    Object.assign(textarea.style, {
+      position: 'fixed',
+      top: '0',
+      left: '0',
+      width: '1px',
+      height: '1px',
+      opacity: '0',
+      pointerEvents: 'none',
+      resize: 'none'
+    })
+    textareaEventNames.forEach(([name, method]) => {
+      textarea.addEventListener(name, this[method] as EventListener)
+    })
+    document.body.appendChild(textarea)
+    document.addEventListener('selectionchange', this.updateSelection)
+    this.textarea = textarea
+    textarea.setSelectionRange(this.selectionStart, this.selectionEnd)
+  },
+
+  beforeDestroy(this: TroikaTextInputType): void {
+    this.$off('pointerdown', this.handleTextPointerDown)
+    document.removeEventListener('selectionchange', this.updateSelection)
+    const { textarea } = this
+    if (textarea) {
+      textareaEventNames.forEach(([name, method]) => {
+        textarea.removeEventListener(name, this[method] as EventListener)
+      })
+      textarea.remove()
+      this.textarea = undefined
+    }
+  }
+}) as VueConstructor<TroikaTextInputType>
+
+export default TroikaTextInput
@@ -0,0 +1,317 @@
+import { BufferGeometry, Color, Group, Matrix4, Mesh, MeshBasicMaterial } from 'three'
+import { TroikaTextRenderInfo, colorInitializer, getSelectionRects } from 'troika-three-text'
+import Vue, { VueConstructor } from 'vue'
+import { VglObject3d } from 'vue-gl'
+import { getCaretIndexAt, getCaretRect, getOrientationMatrix } from './hit-testing'
+import { parseColor, parseNumber } from './parsers'
+import { TextRect, createRectsGeometry } from './text-plane-geometry'
+import { colorValidator, nullableValidator, numberValidator } from './validators'
+import { VglObject3dType } from './vue-gl-types'
+import type { TroikaTextPointerHit, TroikaTextType } from './troika-text'
+
+interface TroikaTextSelectionProps {
+  /**
+   * @default 0
+   * The index of the first selected character in the parent's `text`.
+   */
+  selectionStart: number
+
+  /**
+   * @default 0
+   * The index after the last selected character in the parent's `text`. When equal to
+   * `selectionStart`, nothing is selected and the caret is drawn at that index instead.
+   */
+  selectionEnd: number
+
+  /**
+   * @default 0x3390ff
+   * The color of the highlight drawn behind the selected characters.
+   */
+  selectionColor: colorInitializer
+
+  /**
+   * @default 0.4
+   * The opacity of the highlight drawn behind the selected characters.
+   */
+  selectionOpacity: string | number
+
+  /**
+   * @default 0xffffff
+   * The color of the caret.
+   */
+  caretColor: colorInitializer
+
+  /**
+   * @default null
+   * The width of the caret in local units. Defaults to a twentieth of the caret height.
+   */
+  caretWidth: string | number | null
+
+  /**
+   * @default false
+   * Whether the caret is hidden while nothing is selected.
+   */
+  hideCaret: boolean
+
+  /**
+   * @default false
+   * Whether the selection can be changed by dragging the pointer over the parent text. The
+   * selected text can then be copied with the clipboard shortcut.
+   */
+  selectable: boolean
+}
+
+interface TroikaTextSelectionData {
+  /** The current index of the first selected character. */
+  start: number
+  /** The current index after the last selected character. */
+  end: number
+}
+
+interface TroikaTextSelectionComputed {
+  get inst(): Group
+  /** The mesh of the selection highlight. */
+  get highlight(): Mesh
+  /** The mesh of the caret. */
+  get caret(): Mesh
+  /** The render info of the parent text. */
+  get textRenderInfo(): TroikaTextRenderInfo | null
+  /** The rotation of the parent text's `orientation`. */
+  get orientationMatrix(): Matrix4
+  get highlightRects(): TextRect[]
+  get caretRects(): TextRect[]
+  get highlightGeometry(): BufferGeometry
+  get caretGeometry(): BufferGeometry
+  /** The selected part of the parent's `text`. */
+  get selectedText(): string
+}
+
+interface TroikaTextSelectionMethods {
+  /** Changes the selection, emitting `selection-change` if it differs from the current one. */
+  select(start: number, end: number): void
+  /** Writes the selected text to the clipboard. */
+  copy(): Promise<void>
+  handlePointerDown(event: TroikaTextPointerHit): void
+  handlePointerMove(event: PointerEvent): void
+  handlePointerUp(): void
+  handleDocumentPointerDown(): void
+  handleCopy(event: ClipboardEvent): void
+}
+
+/** Non-reactive state of an ongoing drag. */
+interface TroikaTextSelectionState {
+  /** The index where the current drag started. */
+  anchor?: number
+  /** Whether the last pointer down happened on the parent text, making it the copy target. */
+  active?: boolean
+}
+
+export type TroikaTextSelectionType =
+  TroikaTextSelectionData &
+  TroikaTextSelectionComputed &
+  TroikaTextSelectionMethods &
+  TroikaTextSelectionState &
+  TroikaTextSelectionProps &
+  { troikaText: TroikaTextType } &
+  VglObject3dType
+
+/**
+ * A component drawing the selection highlight and the caret of its parent TroikaText component.
+ * It has to be placed in the default slot of a TroikaText.
+ *
+ * Emits `selection-change` with `{ selectionStart, selectionEnd, selectedText }` when the
+ * selection is changed by dragging.
+ */
+const TroikaTextSelection = (Vue.extend(VglObject3d) as VueConstructor<VglObject3dType>).extend<TroikaTextSelectionData, TroikaTextSelectionMethods, TroikaTextSelectionComputed, TroikaTextSelectionProps>({
+  mixins: [VglObject3d],
+
+  inject: ['troikaText'],
+
+  props: {
+    selectionStart: { type: Number, default: 0 },
+    selectionEnd: { type: Number, default: 0 },
+    selectionColor: { type: [String, Color, Number], default: 0x3390ff, validator: colorValidator('selectionColor') },
+    selectionOpacity: { type: [String, Number], default: 0.4, validator: numberValidator('selectionOpacity') },
+    caretColor: { type: [String, Color, Number], default: 0xffffff, validator: colorValidator('caretColor') },
+    caretWidth: { type: [String, Number], default: null, validator: nullableValidator(numberValidator('caretWidth')) },
+    hideCaret: { type: Boolean, default: false },
+    selectable: { type: Boolean, default: false }
+  },
+
+  data(): TroikaTextSelectionData {
+    return {
+      start: this.selectionStart,
+      end: this.selectionEnd
+    }
+  },
+
+  computed: {
+    inst(this: TroikaTextSelectionType): Group {
+      const group = new Group()
+      group.add(this.highlight, this.caret)
+      return group
+    },
+    highlight(): Mesh {
+      // Drawn behind the glyphs, so that the selection doesn't tint them.
+      return new Mesh(new BufferGeometry(), new MeshBasicMaterial({
+        transparent: true,
+        depthWrite: false,
+        polygonOffset: true,
+        polygonOffsetFactor: 1,
+        polygonOffsetUnits: 1
+      }))
+    },
+    caret(): Mesh {
+      return new Mesh(new BufferGeometry(), new MeshBasicMaterial({
+        polygonOffset: true,
+        polygonOffsetFactor: -1,
+        polygonOffsetUnits: -1
+      }))
+    },
+    textRenderInfo(this: TroikaTextSelectionType): TroikaTextRenderInfo | null {
+      return this.troikaText.textRenderInfo
+    },
+    orientationMatrix(this: TroikaTextSelectionType): Matrix4 {
+      return getOrientationMatrix(this.troikaText.orientation)
+    },
+    highlightRects(this: TroikaTextSelectionType): TextRect[] {
+      if (!this.textRenderInfo || this.start === this.end) return []
+      return getSelectionRects(this.textRenderInfo, this.start, this.end) || []
+    },
+    caretRects(this: TroikaTextSelectionType): TextRect[] {
+      if (!this.textRenderInfo || this.hideCaret || this.start !== this.end) return []
+      const { caretHeight } = this.textRenderInfo
+      const width = this.caretWidth == null ? caretHeight / 20 : parseNumber(this.caretWidth)
+      return [getCaretRect(this.textRenderInfo, this.end, width)]
+    },
+    highlightGeometry(this: TroikaTextSelectionType): BufferGeometry {
+      return createRectsGeometry(this.highlightRects, this.troikaText.resolvedCurveRadius, this.orientationMatrix)
+    },
+    caretGeometry(this: TroikaTextSelectionType): BufferGeometry {
+      return createRectsGeometry(this.caretRects, this.troikaText.resolvedCurveRadius, this.orientationMatrix)
+    },
+    selectedText(this: TroikaTextSelectionType): string {
+      return this.troikaText.plainText.slice(Math.min(this.start, this.end), Math.max(this.start, this.end))
+    }
+  },
+
+  methods: {
+    select(this: TroikaTextSelectionType, start: number, end: number): void {
+      if (start === this.start && end === this.end) return
+      this.start = start
+      this.end = end
+      this.$emit('selection-change', {
+        selectionStart: Math.min(start, end),
+        selectionEnd: Math.max(start, end),
+        selectedText: this.selectedText
+      })
+    },
+    copy(this: TroikaTextSelectionType): Promise<void> {
+      return navigator.clipboard.writeText(this.selectedText)
+    },
+    handlePointerDown(this: TroikaTextSelectionType, event: TroikaTextPointerHit): void {
+      this.active = true
+      const { textRenderInfo } = this.troikaText
+      if (!this.selectable || !textRenderInfo) return
+      this.anchor = getCaretIndexAt(textRenderInfo, event.textCoords.x, event.textCoords.y)
+      this.select(this.anchor, this.anchor)
+      window.addEventListener('pointermove', this.handlePointerMove)
+      window.addEventListener('pointerup', this.handlePointerUp)
+    },
+    handlePointerMove(this: TroikaTextSelectionType, event: PointerEvent): void {
+      const hit = this.troikaText.hitTest(event, true)
+      const { textRenderInfo } = this.troikaText
+      if (!hit || !textRenderInfo || this.anchor === undefined) return
+      this.select(this.anchor, getCaretIndexAt(textRenderInfo, hit.textCoords.x, hit.textCoords.y))
+    },
+    handlePointerUp(this: TroikaTextSelectionType): void {
+      this.anchor = undefined
+      window.removeEventListener('pointermove', this.handlePointerMove)
+      window.removeEventListener('pointerup', this.handlePointerUp)
+    },
+    handleDocumentPointerDown(this: TroikaTextSelectionType): void {
+      // Runs in the capture phase, before the parent text reports a pointer down on itself.
+      this.active = false
+    },
+    handleCopy(this: TroikaTextSelectionType, event: ClipboardEvent): void {
+      if (!this.active || !this.selectedText || !event.clipboardData) return
+      // Leave the copy of selected DOM content alone.
+      const domSelection = window.getSelection()
+      if (domSelection && !domSelection.isCollapsed) return
+      event.clipboardData.setData('text/plain', this.selectedText)
+      event.preventDefault()
+    }
+  },
+
+  watch: {
+    selectionStart(this: TroikaTextSelectionType, selectionStart: number): void {
+      this.start = selectionStart
+    },
+    selectionEnd(this: TroikaTextSelectionType, selectionEnd: number): void {
+      this.end = selectionEnd
+    },
+    selectionColor(this: TroikaTextSelectionType, selectionColor: colorInitializer): void {
+      (this.highlight.material as MeshBasicMaterial).color.copy(parseColor(selectionColor))
+      this.vglObject3d.emit()
+    },
+    selectionOpacity(this: TroikaTextSelectionType, selectionOpacity: string | number): void {
+      (this.highlight.material as MeshBasicMaterial).opacity = parseNumber(selectionOpacity)
+      this.vglObject3d.emit()
+    },
+    caretColor(this: TroikaTextSelectionType, caretColor: colorInitializer): void {
+      (this.caret.material as MeshBasicMaterial).color.copy(parseColor(caretColor))
+      this.vglObject3d.emit()
+    },
+    highlightGeometry: {
+      immediate: true,
+      handler(this: TroikaTextSelectionType, geometry: BufferGeometry, oldGeometry?: BufferGeometry): void {
+        this.highlight.geometry = geometry
+        if (oldGeometry) oldGeometry.dispose()
+        this.vglObject3d.emit()
+      }
+    },
+    caretGeometry: {
+      immediate: true,
+      handler(this: TroikaTextSelectionType, geometry: BufferGeometry, oldGeometry?: BufferGeometry): void {
+        this.caret.geometry = geometry
+        if (oldGeometry) oldGeometry.dispose()
+        this.vglObject3d.emit()
+      }
+    },
+
+    inst: {
+      immediate: true,
+      handler(this: TroikaTextSelectionType): void {
+        const highlightMaterial = this.highlight.material as MeshBasicMaterial
+        const caretMaterial = this.caret.material as MeshBasicMaterial
+        highlightMaterial.color.copy(parseColor(this.selectionColor))
+        highlightMaterial.opacity = parseNumber(this.selectionOpacity)
+        caretMaterial.color.copy(parseColor(this.caretColor))
+      }
+    }
+  },
+
+  created(this: TroikaTextSelectionType): void {
+    this.troikaText.pointerConsumers++
+    this.troikaText.$on('pointerdown', this.handlePointerDown)
+    document.addEventListener('pointerdown', this.handleDocumentPointerDown, true)
+    document.addEventListener('copy', this.handleCopy)
+  },
+
+  beforeDestroy(this: TroikaTextSelectionType): void {
+    this.troikaText.pointerConsumers--
+    this.troikaText.$off('pointerdown', this.handlePointerDown)
+    document.removeEventListener('pointerdown', this.handleDocumentPointerDown, true)
+    document.removeEventListener('copy', this.handleCopy)
+    this.handlePointerUp()
+  },
+
+  destroyed(this: TroikaTextSelectionType): void {
+    [this.highlight, this.caret].forEach((mesh) => {
+      mesh.geometry.dispose()
+      ;(mesh.material as MeshBasicMaterial).dispose()
+    })
+  }
+}) as VueConstructor<TroikaTextSelectionType>
+
+export default TroikaTextSelection
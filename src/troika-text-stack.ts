@@ -0,0 +1,250 @@
+import { Box3, Matrix4, Object3D, Vector3 } from 'three'
+import Vue, { VueConstructor } from 'vue'
+import { VglObject3d } from 'vue-gl'
+import { getOrientationMatrix } from './hit-testing'
+import { nullableParser, parseNumber, parsePadding, parseVector3 } from './parsers'
+import { keywordValidator, nullableValidator, numberValidator, paddingValidator } from './validators'
+import { VglObject3dProps, VglObject3dType } from './vue-gl-types'
+
+/** A component laid out by a TroikaTextStack: a TroikaText or a nested stack. */
+export interface TroikaStackItem extends Vue {
+  readonly inst: Object3D
+  /**
+   * The `[minX, minY, maxX, maxY]` rect the item takes in its local units, or null until it is
+   * measured.
+   */
+  readonly bounds: number[] | null
+  readonly hidden: boolean
+  readonly scale?: VglObject3dProps['scale']
+  /** The orientation of a TroikaText, turning its `bounds` out of the xy plane. */
+  readonly orientation?: string
+}
+
+interface TroikaTextStackProps {
+  /**
+   * @default 'column'
+   * The axis the items are stacked along: `'column'` from the top down, or `'row'` from the left
+   * to the right.
+   */
+  direction: string
+
+  /**
+   * @default 0
+   * The space between the items, in local units.
+   */
+  gap: string | number
+
+  /**
+   * @default 'start'
+   * How the items are aligned across the `direction`: `'start'`, `'center'` or `'end'`.
+   */
+  align: string
+
+  /**
+   * @default 'start'
+   * How the items are distributed along the `direction` when the stack is larger than them:
+   * `'start'`, `'center'`, `'end'` or `'space-between'`.
+   */
+  justify: string
+
+  /**
+   * @default 0
+   * The space between the items and the edges of the stack, in local units. Can be 1, 2 or 4
+   * lengths in the order of CSS, as a number, an array or a comma-separated string.
+   */
+  padding: number | string | (string | number)[]
+
+  /**
+   * @default null
+   * The width of the stack in local units, or null to fit the items.
+   */
+  width: string | number | null
+
+  /**
+   * @default null
+   * The height of the stack in local units, or null to fit the items.
+   */
+  height: string | number | null
+}
+
+interface TroikaTextStackData {
+  /** The items of the stack, in the order of the template. */
+  items: TroikaStackItem[]
+}
+
+/** The laid out positions of the items, and the size of the stack. */
+interface StackLayout {
+  positions: Map<TroikaStackItem, { x: number, y: number }>
+  width: number
+  height: number
+}
+
+interface TroikaTextStackComputed {
+  get inst(): Object3D
+  get layout(): StackLayout
+  /** The rect of the stack, from its top left corner at the origin, for a parent stack. */
+  get bounds(): number[]
+}
+
+interface TroikaTextStackMethods {
+  /** Registers an item, ordered among the others by its place in the template. */
+  addItem(item: TroikaStackItem): void
+  removeItem(item: TroikaStackItem): void
+}
+
+export type TroikaTextStackType =
+  TroikaTextStackData &
+  TroikaTextStackComputed &
+  TroikaTextStackMethods &
+  TroikaTextStackProps &
+  { troikaTextStack: TroikaTextStackType | null } &
+  VglObject3dType
+
+const tempMat4a = new Matrix4()
+const tempMat4b = new Matrix4()
+const tempVec3 = new Vector3()
+const tempBox = new Box3()
+
+/**
+ * The rect an item takes in the xy plane of the stack, from its `bounds` turned by its `orientation`
+ * and scaled by its `scale`. Null until the item is measured.
+ */
+function getStackBounds(item: TroikaStackItem): number[] | null {
+  const { bounds } = item
+  if (!bounds) return null
+  const matrix = getOrientationMatrix(item.orientation || '+x+y', tempMat4a)
+  if (item.scale) {
+    const { x, y, z } = parseVector3(item.scale)
+    matrix.premultiply(tempMat4b.makeScale(x, y, z))
+  }
+  tempBox.makeEmpty()
+  ;[[0, 1], [2, 1], [0, 3], [2, 3]].forEach(([x, y]) => {
+    tempBox.expandByPoint(tempVec3.set(bounds[x], bounds[y], 0).applyMatrix4(matrix))
+  })
+  return [tempBox.min.x, tempBox.min.y, tempBox.max.x, tempBox.max.y]
+}
+
+/** The offset of the first item along the main axis, and the space between the items. */
+function justifyItems(justify: string, free: number, gap: number, count: number): [number, number] {
+  if (justify === 'center') return [free / 2, gap]
+  if (justify === 'end') return [free, gap]
+  if (justify === 'space-between' && count > 1) return [0, gap + free / (count - 1)]
+  return [0, gap]
+}
+
+function alignItem(align: string, free: number): number {
+  if (align === 'center') return free / 2
+  if (align === 'end') return free
+  return 0
+}
+
+/**
+ * A container stacking the TroikaText components and the nested stacks among its descendants in a
+ * column or a row, like a CSS flexbox. The items are measured from the `blockBounds` of the texts
+ * once synced, scaled and turned by their `scale` and `orientation`, and laid out again whenever one
+ * of them changes. The stack's origin is its top left corner on the xy plane, and it overrides the
+ * x and y of the position of its items. Hidden items take no space.
+ *
+ * Emits `layout` with the `{ width, height }` of the stack when it changes.
+ */
+const TroikaTextStack = (Vue.extend(VglObject3d) as VueConstructor<VglObject3dType>).extend<TroikaTextStackData, TroikaTextStackMethods, TroikaTextStackComputed, TroikaTextStackProps>({
+  mixins: [VglObject3d],
+
+  inject: {
+    troikaTextStack: { default: null }
+  },
+
+  provide(): { troikaTextStack: Vue } {
+    return { troikaTextStack: this }
+  },
+
+  props: {
+    direction: { type: String, default: 'column', validator: keywordValidator('direction', ['column', 'row']) },
+    gap: { type: [String, Number], default: 0, validator: numberValidator('gap') },
+    align: { type: String, default: 'start', validator: keywordValidator('align', ['start', 'center', 'end']) },
+    justify: { type: String, default: 'start', validator: keywordValidator('justify', ['start', 'center', 'end', 'space-between']) },
+    padding: { type: [Number, String, Array], default: 0, validator: paddingValidator('padding') },
+    width: { type: [String, Number], default: null, validator: nullableValidator(numberValidator('width')) },
+    height: { type: [String, Number], default: null, validator: nullableValidator(numberValidator('height')) }
+  },
+
+  data(): TroikaTextStackData {
+    return {
+      items: []
+    }
+  },
+
+  computed: {
+    inst(): Object3D {
+      return new Object3D()
+    },
+    layout(this: TroikaTextStackType): StackLayout {
+      const [top, right, bottom, left] = parsePadding(this.padding)
+      const row = this.direction === 'row'
+      const gap = parseNumber(this.gap)
+      const items = this.items.filter((item) => !item.hidden)
+      const itemBounds = items.map(getStackBounds)
+      const sizes = itemBounds.map((bounds) => (bounds ? [bounds[2] - bounds[0], bounds[3] - bounds[1]] : [0, 0]))
+      const [main, cross] = row ? [0, 1] : [1, 0]
+      const content = sizes.reduce((sum, size) => sum + size[main], 0) + gap * Math.max(0, items.length - 1)
+      const contentCross = sizes.reduce((max, size) => Math.max(max, size[cross]), 0)
+      const fixedWidth = nullableParser(parseNumber)(this.width)
+      const fixedHeight = nullableParser(parseNumber)(this.height)
+      const width = fixedWidth != null ? fixedWidth : (row ? content : contentCross) + left + right
+      const height = fixedHeight != null ? fixedHeight : (row ? contentCross : content) + top + bottom
+      const [innerMain, innerCross] = row ? [width - left - right, height - top - bottom] : [height - top - bottom, width - left - right]
+      const [first, spacing] = justifyItems(this.justify, Math.max(0, innerMain - content), gap, items.length)
+
+      const positions = new Map<TroikaStackItem, { x: number, y: number }>()
+      let offset = first
+      items.forEach((item, index) => {
+        const size = sizes[index]
+        const crossOffset = alignItem(this.align, innerCross - size[cross])
+        const [x, y] = row ? [left + offset, top + crossOffset] : [left + crossOffset, top + offset]
+        // The top left corner of the item's rect is put there, with y pointing down from the top.
+        const bounds = itemBounds[index] || [0, 0, 0, 0]
+        positions.set(item, { x: x - bounds[0], y: -y - bounds[3] })
+        offset += size[main] + spacing
+      })
+      return { positions, width, height }
+    },
+    bounds(this: TroikaTextStackType): number[] {
+      return [0, -this.layout.height, this.layout.width, 0]
+    }
+  },
+
+  methods: {
+    addItem(this: TroikaTextStackType, item: TroikaStackItem): void {
+      const index = this.items.findIndex((other) => !!(item.$el.compareDocumentPosition(other.$el) & Node.DOCUMENT_POSITION_FOLLOWING))
+      if (index < 0) this.items.push(item)
+      else this.items.splice(index, 0, item)
+    },
+    removeItem(this: TroikaTextStackType, item: TroikaStackItem): void {
+      const index = this.items.indexOf(item)
+      if (index >= 0) this.items.splice(index, 1)
+    }
+  },
+
+  watch: {
+    layout(this: TroikaTextStackType, layout: StackLayout, oldLayout: StackLayout): void {
+      layout.positions.forEach(({ x, y }, item) => {
+        item.inst.position.x = x
+        item.inst.position.y = y
+      })
+      this.vglObject3d.emit()
+      if (layout.width !== oldLayout.width || layout.height !== oldLayout.height) {
+        this.$emit('layout', { width: layout.width, height: layout.height })
+      }
+    }
+  },
+
+  mounted(this: TroikaTextStackType): void {
+    if (this.troikaTextStack) this.troikaTextStack.addItem(this)
+  },
+
+  beforeDestroy(this: TroikaTextStackType): void {
+    if (this.troikaTextStack) this.troikaTextStack.removeItem(this)
+  }
+}) as VueConstructor<TroikaTextStackType>
+
+export default TroikaTextStack
@@ -0,0 +1,86 @@
+import { Euler, Object3D, Vector3 } from 'three'
+import { InjectionKey, PropType, defineComponent, inject, onBeforeUnmount, watch } from 'vue'
+import { parseEuler, parseVector3 } from './parsers'
+import { textPropOptions } from './text-props'
+import { UseTroikaText, useTroikaText } from './use-troika-text'
+
+/** The object a TroikaText of the Vue 3 build adds its instance to. */
+export interface TroikaTextParent {
+  /** The object the instance is added to. */
+  readonly object3d: Object3D
+  /** Asks for the scene to be rendered again, e.g. by an on-demand render loop. */
+  render?(): void
+}
+
+/** The key under which an ancestor provides the `TroikaTextParent` of the texts. */
+export const troikaTextParentKey: InjectionKey<TroikaTextParent> = Symbol('troikaTextParent')
+
+/**
+ * The TroikaText component of the Vue 3 build, which also runs on Vue 2.7. It takes the props of
+ * `textPropOptions`, shared with the Vue 2 component, and the `position`, `rotation`, `scale`,
+ * `name` and `hidden` props of VueGL objects, and emits `sync-start` and `sync-complete`. It doesn't
+ * depend on VueGL, which is built for Vue 2: its instance is added to the `TroikaTextParent`
+ * provided under `troikaTextParentKey`, if any, or can be added to a scene from the `inst` exposed
+ * by the component, along with `textRenderInfo` and `syncing`. It renders no slot. The other props
+ * and events of the Vue 2 component, such as the markup, the fit, the path, the background and the
+ * pointer events, are only supported by the Vue 2 build.
+ */
+const TroikaText = defineComponent({
+  name: 'TroikaText',
+
+  props: {
+    ...textPropOptions,
+    /** The object's local position as a 3D vector. */
+    position: { type: [String, Array, Vector3] as PropType<string | (string | number)[] | Vector3>, default: null },
+    /** The object's local rotation as a euler angle. */
+    rotation: { type: [String, Array, Euler] as PropType<string | (string | number)[] | Euler>, default: null },
+    /** The object's local scale as a 3D vector. */
+    scale: { type: [String, Array, Vector3] as PropType<string | (string | number)[] | Vector3>, default: null },
+    /** Optional name of the object. */
+    name: { type: String, default: '' },
+    /** Whether the object is hidden. */
+    hidden: { type: Boolean, default: false }
+  },
+
+  emits: ['sync-start', 'sync-complete'],
+
+  setup(props, { emit }): UseTroikaText {
+    const parent = inject(troikaTextParentKey, null)
+    const text = useTroikaText(props, {
+      onRender: () => { if (parent && parent.render) parent.render() },
+      onSyncStart: () => emit('sync-start'),
+      onSyncComplete: (textRenderInfo) => emit('sync-complete', textRenderInfo)
+    })
+    const { inst } = text
+    watch(() => props.position, (position) => {
+      if (position != null) inst.position.copy(parseVector3(position))
+      text.requestRender()
+    }, { immediate: true })
+    watch(() => props.rotation, (rotation) => {
+      if (rotation != null) inst.rotation.copy(parseEuler(rotation))
+      text.requestRender()
+    }, { immediate: true })
+    watch(() => props.scale, (scale) => {
+      if (scale != null) inst.scale.copy(parseVector3(scale))
+      text.requestRender()
+    }, { immediate: true })
+    watch(() => props.name, (name) => {
+      inst.name = name
+    }, { immediate: true })
+    watch(() => props.hidden, (hidden) => {
+      inst.visible = !hidden
+      text.requestRender()
+    }, { immediate: true })
+    if (parent) parent.object3d.add(inst)
+    onBeforeUnmount(() => {
+      if (!inst.parent) return
+      inst.parent.remove(inst)
+      if (parent && parent.render) parent.render()
+    })
+    return text
+  },
+
+  render: () => null
+})
+
+export default TroikaText
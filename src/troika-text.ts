@@ -0,0 +1,1845 @@
+import bidiFactory from 'bidi-js'
+import {
+  BufferGeometry, Camera, Color, Curve, DoubleSide, Material, Matrix4, Mesh, MeshBasicMaterial, Object3D, Raycaster, Scene,
+  ShaderMaterial, Vector2, Vector3, WebGLRenderer
+} from 'three'
+import { Text, TroikaTextRenderInfo, colorInitializer } from 'troika-three-text'
+import { DerivedMaterial } from 'troika-three-utils'
+import Vue, { CreateElement, VNode, VueConstructor } from 'vue'
+import { VglMesh } from 'vue-gl'
+import { MirrorOptions, createMirror, getBlockCenter, isActivationKey, updateMirror } from './accessible-mirror'
+import { BillboardOptions, applyBillboard, hookBeforeRender } from './billboard'
+import { FontChain, splitRunsByFont } from './font-chain'
+import { FitOptions, FitSearch, createFitSearch, stepFitSearch } from './font-fit'
+import { FontNamespace, TroikaFont, getFontNamespace } from './font-namespace'
+import { AnimationMaterial, animationEffects, createAnimationMaterial, setAnimationEffect, setGlyphOrder, unwrapAnimationMaterial } from './glyph-animation'
+import { getCharacterAt, getOrientationMatrix, intersectText } from './hit-testing'
+import { MarkupRun, ParsedMarkup, mergeColorRanges, needsOwnMesh, parseMarkup } from './markup'
+import { nullableParser, parseColor, parseColorRanges, parseFloatArray, parseLength, parseNumber, parsePadding } from './parsers'
+import { PathLayout, PathMaterial, createPathMaterial, getPathStart, samplePath, unwrapPathMaterial } from './path-material'
+import { isSvgPathData, parseSvgPath } from './svg-path'
+import { TextPropName, TextPropUpdate, applyTextProp, textPropNames, textPropOptions, textProps } from './text-props'
+import { TextRect, createRoundedBorderGeometry, createRoundedRectGeometry } from './text-plane-geometry'
+import { ellipsis, findOverflowIndex, truncateRuns, truncateText } from './truncation'
+import {
+  RunLayout, findRunBreaks, isSoftWrapped, layoutRuns, orderRunLine, placeRun, sliceColorRanges, splitRunLines, splitRunsAtSpaces,
+  splitRunsByLevel, wrapRunLines
+} from './text-runs'
+import { colorValidator, describedValidator, keywordValidator, nullableValidator, numberValidator, paddingValidator, validateFontChain } from './validators'
+import { VglMeshType, VglNamespaceMap, VglRendererType } from './vue-gl-types'
+import type { TroikaTextBatchType } from './troika-text-batch'
+import type { TroikaTextStackType } from './troika-text-stack'
+
+/** Finds the nearest VglRenderer component among the ancestors of a component. */
+function findRenderer(vm: Vue): VglRendererType | null {
+  for (let parent = vm.$parent; parent; parent = parent.$parent) {
+    const { inst } = parent as Vue & { inst?: WebGLRenderer }
+    if (inst && inst.domElement) return parent as VglRendererType
+  }
+  return null
+}
+
+/** The names of the pointer events emitted by the TroikaText component. */
+const pointerEventNames = ['pointerdown', 'pointerup', 'pointermove', 'click', 'pointerenter', 'pointerleave']
+
+/** The DOM events on the renderer's canvas that the TroikaText component listens to. */
+const domPointerEventNames = ['pointerdown', 'pointerup', 'pointermove', 'click', 'pointerleave']
+
+/** The DOM events on the accessible mirror that the TroikaText component listens to. */
+const mirrorEventNames = ['focus', 'blur', 'click', 'keydown']
+
+/**
+ * The shared props resolved before reaching the instance, e.g. the `text` from the `markup` or the
+ * `fontSize` fitted to the box. Their resolved values have their own watchers.
+ */
+const resolvedTextProps: TextPropName[] = ['text', 'font', 'fontSize', 'curveRadius', 'colorRanges', 'sdfGlyphSize']
+
+/** The shared props set on the instance as they are given. */
+const directTextProps = textPropNames.filter((name) => !resolvedTextProps.includes(name))
+
+/** The outline width drawing `<b>` markup when no `boldFont` is given. */
+const fauxBoldWidth = '4%'
+
+/** Resolves the embedding levels of the runs, to order them when they are laid out by their own meshes. */
+const bidi = bidiFactory()
+
+/** The methods of VglMesh, some of which TroikaText extends. */
+const vglMeshMethods = (Vue.extend(VglMesh) as unknown as { options: { methods: { setMaterial(this: Vue): void } } }).options.methods
+
+const tempMat4 = new Matrix4()
+
+/** Creates a mesh of the background, drawn behind the glyphs and prepared for rendering like them. */
+function createBackgroundMesh(beforeRender: (camera: Camera, renderer: WebGLRenderer, scene: Scene) => void): Mesh {
+  const mesh = new Mesh(new BufferGeometry(), new MeshBasicMaterial({
+    transparent: true,
+    depthWrite: false,
+    side: DoubleSide,
+    polygonOffset: true
+  }))
+  hookBeforeRender(mesh, beforeRender)
+  return mesh
+}
+
+/** The layout of each run mesh when it was last synced, and the promise of that sync. */
+const runSyncs = new WeakMap<Text, { key: string, synced: Promise<void> }>()
+
+/** The payload of the pointer events emitted by the TroikaText component. */
+export interface TroikaTextPointerEvent {
+  /**
+   * The index of the character under the pointer in `text`, or -1 if between characters or off
+   * the text, as on `pointerleave`.
+   */
+  charIndex: number
+  /** The index of the line under the pointer, or -1 off the text. */
+  lineIndex: number
+  /**
+   * The position under the pointer on the text plane in local units, with `curveRadius` and
+   * `orientation` undone; comparable to `textRenderInfo.blockBounds`. Null off the text.
+   */
+  textCoords: Vector2 | null
+  /** The position under the pointer in world space, or null off the text. */
+  point: Vector3 | null
+  /** The distance from the camera to `point`, or Infinity off the text. */
+  distance: number
+  /**
+   * The DOM event on the renderer's canvas, or on the accessible mirror of the text, in which case
+   * the pointer is placed at the center of the text block.
+   */
+  originalEvent: MouseEvent | FocusEvent
+}
+
+/** A pointer event over the text, as emitted for all of them but `pointerleave`. */
+export interface TroikaTextPointerHit extends TroikaTextPointerEvent {
+  textCoords: Vector2
+  point: Vector3
+}
+
+/** The `pointerleave` event, with no hit as the pointer or the focus left the text. */
+function createLeaveEvent(originalEvent: MouseEvent | FocusEvent): TroikaTextPointerEvent {
+  return { charIndex: -1, lineIndex: -1, textCoords: null, point: null, distance: Infinity, originalEvent }
+}
+
+interface TroikaTextProps {
+  /**
+   * @default 0
+   * The string of text to be rendered.
+   * */
+  text: string
+
+  /**
+   * @default null
+   * A string of rich-text markup to be rendered instead of `text`. The supported tags are `<b>`,
+   * `<color=...>` with any color string, `<size=...>` with a multiplier of `fontSize` such as
+   * `1.2` or `'120%'`, `<font=...>` with a font URL, and `<outline=...>` with an outline width
+   * optionally followed by a color. Each tag is closed by its `</name>` tag, and `&lt;`, `&gt;`,
+   * `&amp;`, `&quot;` and `&apos;` write literal characters. Unknown tags are rendered as text.
+   *
+   * Colors are applied through `colorRanges`. The other styles are rendered by coordinated child
+   * meshes, one per styled run, which are wrapped at `maxWidth` by splitting them, so such text
+   * is laid out twice when it wraps.
+   */
+  markup: string | null
+
+  /**
+   * @default 0
+   * Defines the horizontal position in the text block that should line up with the local origin.
+   * Can be specified as a numeric x position in local units, a string percentage of the total
+   * text block width e.g. `'25%'`, or one of the following keyword strings: 'left', 'center',
+   * or 'right'.
+   */
+  anchorX: string | number
+
+  /**
+   * @default 0
+   * Defines the vertical position in the text block that should line up with the local origin.
+   * Can be specified as a numeric y position in local units (note: down is negative y), a string
+   * percentage of the total text block height e.g. `'25%'`, or one of the following keyword strings:
+   * 'top', 'top-baseline', 'middle', 'bottom-baseline', or 'bottom'.
+   */
+  anchorY: string | number
+
+  /**
+   * @default 0
+   * Defines a cylindrical radius along which the text's plane will be curved. Positive numbers put
+   * the cylinder's centerline (oriented vertically) that distance in front of the text, for a concave
+   * curvature, while negative numbers put it behind the text for a convex curvature. The centerline
+   * will be aligned with the text's local origin; you can use `anchorX` to offset it.
+   *
+   * Since each glyph is by default rendered with a simple quad, each glyph remains a flat plane
+   * internally. You can use `glyphGeometryDetail` to add more vertices for curvature inside glyphs.
+   */
+  curveRadius: number | string
+
+  /**
+   * @default null
+   * A path the baseline of the text follows, overriding the `curveRadius`: a THREE `Curve` or
+   * `Path`, SVG path data with the y axis pointing up as on the text plane, or the name of a
+   * curve registered by VueGL components such as VglPath. Each glyph is moved along the path by
+   * its x on the text plane and off it by its y, so `anchorY` sets the line laid on the path, and
+   * `glyphGeometryDetail` subdivides glyphs to bend smoothly. The z of 3D curves lifts the text off
+   * its plane.
+   *
+   * The background and hit testing keep to the unbent text block.
+   */
+  path: string | Curve<Vector2 | Vector3> | null
+
+  /**
+   * @default 0
+   * The distance along the `path` the text is moved by from its aligned position, in local units.
+   */
+  pathOffset: number | string
+
+  /**
+   * @default 'start'
+   * Where the text block is aligned along the `path`: `'start'`, `'center'` or `'end'`.
+   */
+  pathAlign: string
+
+  /**
+   * @default 'auto'
+   * Sets the base direction for the text. The default value of "auto" will choose a direction based
+   * on the text's content according to the bidi spec. A value of "ltr" or "rtl" will force the direction.
+   */
+  direction: string
+
+  /**
+   * @default null
+   * URL of a custom font to be used. Font files can be any of the formats supported by
+   * OpenType (see https://github.com/opentypejs/opentype.js).
+   * Defaults to the Roboto font loaded from Google Fonts.
+   *
+   * Can also be the name of a font registered by a VglTroikaFont component, in which case the
+   * text is laid out once the font is ready.
+   */
+  font: string | null
+
+  /**
+   * @default null
+   * URL of the font used for `<b>` markup. If null, bold text is emboldened with an outline of
+   * its own color instead.
+   */
+  boldFont: string | null
+
+  /**
+   * @default null
+   * A font fallback chain, used instead of `font` for the characters it covers. Each entry is
+   * either a font, covering every character, or an object with a `font` and the characters it
+   * covers, as a CSS `unicode-range` string in `unicodeRange` and/or as Unicode script names in
+   * `script`, e.g. `[{ font: 'arabic', script: 'Arabic' }, { font: 'cjk', unicodeRange: 'U+4E00-9FFF' }, 'latin']`.
+   * Each character gets the first font of the chain covering it; characters covered by none get
+   * `font`. The fonts can be URLs or names of fonts registered by VglTroikaFont components.
+   *
+   * When the characters get different fonts, each run of a single font is rendered by a
+   * coordinated child mesh, ordered by the bidi algorithm. The runs are wrapped at `maxWidth` by
+   * splitting them, as those of the `markup`, so such text is laid out twice when it wraps.
+   */
+  fonts: FontChain | null
+
+  /**
+   * @default 0.1
+   * The size at which to render the font in local units; corresponds to the em-box height
+   * of the chosen `font`.
+   */
+  fontSize: number | string
+
+  /**
+   * @default null
+   * The width of the box the text block is fitted to by adjusting its font size, or null not to
+   * constrain the width. The text is laid out again at each tried size, so wrapping at `maxWidth`
+   * and the `lineHeight` are taken into account.
+   */
+  fitWidth: number | string | null
+
+  /**
+   * @default null
+   * The height of the box the text block is fitted to by adjusting its font size, or null not to
+   * constrain the height.
+   */
+  fitHeight: number | string | null
+
+  /**
+   * @default 'shrink'
+   * How the font size is fitted to `fitWidth` and `fitHeight`. Can be `'shrink'` to only make
+   * it smaller than `fontSize` when the text overflows, `'grow'` to only make it larger to fill the
+   * box, or `'both'`. Once the size is found, the `fit` event is emitted with it.
+   */
+  fit: string
+
+  /**
+   * @default 0
+   * The smallest font size the text is shrunk to when fitted. Text still overflowing the box at
+   * this size is left overflowing.
+   */
+  minFontSize: number | string
+
+  /**
+   * @default Infinity
+   * The largest font size the text is grown to when fitted.
+   */
+  maxFontSize: number | string
+
+  /**
+   * @default 0
+   * Sets a uniform adjustment to spacing between letters after kerning is applied. Positive
+   * numbers increase spacing and negative numbers decrease it.
+   */
+  letterSpacing: number | string
+
+  /**
+   * @default 'normal'
+   * Sets the height of each line of text, as a multiple of the `fontSize`. Defaults to 'normal',
+   * which chooses a reasonable height based on the chosen font's ascender/descender metrics.
+   */
+  lineHeight: string | number
+
+  /**
+   * @default Infinity
+   * The maximum width of the text block, above which text may start wrapping according to the
+   * `whiteSpace` and `overflowWrap` properties.
+   */
+  maxWidth: number | string
+
+  /**
+   * @default 'normal'
+   * Defines how text wraps if the `whiteSpace` property is `normal`. Can be either `'normal'`
+   * to break at whitespace characters, or `'break-word'` to allow breaking within words.
+   */
+  overflowWrap: string
+
+  /**
+   * @default 'left'
+   * The horizontal alignment of each line of text within the overall text bounding box.
+   */
+  textAlign: string
+
+  /**
+   * @default 0
+   * Indentation for the first character of a line; see CSS `text-indent`.
+   */
+  textIndent: number | string
+
+  /**
+   * @default 'normal'
+   * Defines whether text should wrap when a line reaches the `maxWidth`. Can
+   * be either `'normal'` (the default), to allow wrapping according to the `overflowWrap` property,
+   * or `'nowrap'` to prevent wrapping. Note that `'normal'` here honors newline characters to
+   * manually break lines, making it behave more like `'pre-wrap'` does in CSS.
+   */
+  whiteSpace: string
+
+  /**
+   * @default Infinity
+   * The maximum number of lines shown. The text past them is cut, as set by `overflow`.
+   */
+  maxLines: number | string
+
+  /**
+   * @default null
+   * How the text overflowing `maxLines` is truncated. Can be `'clip'` to cut it after the last
+   * character that fits, or `'ellipsis'` to also append an ellipsis glyph, cutting the text
+   * shorter for the ellipsis to fit. When set, text not wrapping because of `whiteSpace='nowrap'`
+   * is also cut where it extends past `maxWidth`. If null, text overflowing `maxLines` is clipped.
+   *
+   * The `truncate` event is emitted with whether the text is truncated and the full text when
+   * that changes.
+   */
+  overflow: string | null
+
+  /**
+   * @default null
+   * This is a shortcut for setting the `color` of the text's material. You can use this
+   * if you don't want to specify a whole custom `material`. Also, if you do use a custom
+   * `material`, this color will only be used for this particuar Text instance, even if
+   * that same material instance is shared across multiple Text objects.
+   */
+  color: colorInitializer | null
+
+  /**
+   * @default null
+   * WARNING: This API is experimental and may change.
+   * This allows more fine-grained control of colors for individual or ranges of characters,
+   * taking precedence over the material's `color`. Its format is an Object whose keys each
+   * define a starting character index for a range, and whose values are the color for each
+   * range. The color value can be a numeric hex color value, a `THREE.Color` object, or
+   * any of the strings accepted by `THREE.Color`. Can also be given as a string of comma-separated
+   * `index:color` pairs, e.g. `'0:#f00,5:blue'`.
+   */
+  colorRanges: string | { [index: number]: colorInitializer } | null
+
+  /**
+   * @default 0
+   * WARNING: This API is experimental and may change.
+   * The width of an outline/halo to be drawn around each text glyph using the `outlineColor` and `outlineOpacity`.
+   * Can be specified as either an absolute number in local units, or as a percentage string e.g.
+   * `"12%"` which is treated as a percentage of the `fontSize`. Defaults to `0`, which means
+   * no outline will be drawn unless an `outlineOffsetX/Y` or `outlineBlur` is set.
+   */
+  outlineWidth: string | number
+
+  /**
+   * @default 0x000000
+   * WARNING: This API is experimental and may change.
+   * The color of the text outline, if `outlineWidth`/`outlineBlur`/`outlineOffsetX/Y` are set.
+   */
+  outlineColor: colorInitializer
+
+  /**
+   * @default 1
+   * WARNING: This API is experimental and may change.
+   * The opacity of the outline, if `outlineWidth`/`outlineBlur`/`outlineOffsetX/Y` are set.
+   */
+  outlineOpacity: number | string
+
+  /**
+   * @default 0
+   * WARNING: This API is experimental and may change.
+   * A blur radius applied to the outer edge of the text's outline. If the `outlineWidth` is
+   * zero, the blur will be applied at the glyph edge, like CSS's `text-shadow` blur radius.
+   * Can be specified as either an absolute number in local units, or as a percentage string e.g.
+   * `"12%"` which is treated as a percentage of the `fontSize`.
+   */
+  outlineBlur: string | number
+
+  /**
+   * @default 0
+   * WARNING: This API is experimental and may change.
+   * A horizontal offset for the text outline.
+   * Can be specified as either an absolute number in local units, or as a percentage string e.g. `"12%"`
+   * which is treated as a percentage of the `fontSize`.
+   */
+  outlineOffsetX: string | number
+
+  /**
+   * @default 0
+   * WARNING: This API is experimental and may change.
+   * A vertical offset for the text outline.
+   * Can be specified as either an absolute number in local units, or as a percentage string e.g. `"12%"`
+   * which is treated as a percentage of the `fontSize`.
+   */
+  outlineOffsetY: string | number
+
+  /**
+   * @default 0
+   * WARNING: This API is experimental and may change.
+   * The width of an inner stroke drawn inside each text glyph using the `strokeColor` and `strokeOpacity`.
+   * Can be specified as either an absolute number in local units, or as a percentage string e.g. `"12%"`
+   * which is treated as a percentage of the `fontSize`.
+   */
+  strokeWidth: string | number
+
+  /**
+   * @default 0x808080
+   * WARNING: This API is experimental and may change.
+   * The color of the text stroke, if `strokeWidth` is greater than zero.
+   */
+  strokeColor: colorInitializer
+
+  /**
+   * @default 1
+   * WARNING: This API is experimental and may change.
+   * The opacity of the stroke, if `strokeWidth` is greater than zero.
+   */
+  strokeOpacity: number | string
+
+  /**
+   * @deafult 1
+   * WARNING: This API is experimental and may change.
+   * The opacity of the glyph's fill from 0 to 1. This behaves like the material's `opacity` but allows
+   * giving the fill a different opacity than the `strokeOpacity`. A fillOpacity of `0` makes the
+   * interior of the glyph invisible, leaving just the `strokeWidth`.
+   */
+  fillOpacity: number | string
+
+  /**
+   * @default 0
+   * This is a shortcut for setting the material's `polygonOffset` and related properties,
+   * which can be useful in preventing z-fighting when this text is laid on top of another
+   * plane in the scene. Positive numbers are further from the camera, negatives closer.
+   */
+  depthOffset: number | string
+
+  /**
+   * @default null
+   * If specified, defines a `[minX, minY, maxX, maxY]` of a rectangle outside of which all
+   * pixels will be discarded. This can be used for example to clip overflowing text when
+   * `whiteSpace='nowrap'`. Can be an array or a comma-separated string.
+   */
+  clipRect: string | (string | number)[] | null
+
+  /**
+   * @default '+x+y'
+   * Defines the axis plane on which the text should be laid out when the mesh has no extra
+   * rotation transform. It is specified as a string with two axes: the horizontal axis with
+   * positive pointing right, and the vertical axis with positive pointing up. By default this
+   * is '+x+y', meaning the text sits on the xy plane with the text's top toward positive y
+   * and facing positive z. A value of '+x-z' would place it on the xz plane with the text's
+   * top toward negative z and facing positive y.
+   */
+  orientation: string
+
+  /**
+   * @default null
+   * The color of a plate drawn behind the text block, sized from its `blockBounds` after each sync.
+   * It follows the `curveRadius` and the `orientation` of the text, and is drawn one step further
+   * than the `depthOffset` so that it doesn't z-fight with the glyphs. No plate is drawn if null.
+   */
+  backgroundColor: colorInitializer | null
+
+  /**
+   * @default 1
+   * The opacity of the background plate and its border.
+   */
+  backgroundOpacity: number | string
+
+  /**
+   * @default 0
+   * The space between the text block and the edges of the background, in local units. Can be 1, 2
+   * or 4 lengths in the order of CSS, as a number, an array or a comma-separated string.
+   */
+  padding: number | string | (string | number)[]
+
+  /**
+   * @default 0
+   * The radius of the rounded corners of the background, in local units.
+   */
+  borderRadius: number | string
+
+  /**
+   * @default null
+   * The color of a border drawn inside the edges of the background. No border is drawn if null.
+   */
+  borderColor: colorInitializer | null
+
+  /**
+   * @default 0
+   * The width of the border, in local units.
+   */
+  borderWidth: number | string
+
+  /**
+   * @default 'none'
+   * Turns the text to face the camera it is rendered with, overriding its rotation. Can be
+   * `'full'` to face the camera squarely, `'y-axis'` to only turn around the vertical axis, like
+   * signs standing upright, or `'none'`.
+   */
+  billboard: string
+
+  /**
+   * @default null
+   * The height the `fontSize` is rendered at on screen in CSS pixels, whatever the distance to
+   * the camera or its zoom, overriding the scale of the text. If null, the text is scaled in
+   * world units.
+   *
+   * Like `billboard`, it is applied to the world matrix of the instance right before rendering,
+   * and again before hit testing the pointer events, so that both see the same transform. The
+   * text isn't frustum culled while either is used, since its bounds depend on the camera.
+   */
+  screenSize: number | string | null
+
+  /**
+   * @default null
+   * An effect played on the glyphs one after another: `'typewriter'` reveals them one by one,
+   * `'fade'` fades them in, `'slide'` fades them in rising from below, `'wave'` runs a wave through
+   * them, and `'shake'` jitters them until they settle. The effects are played by the shaders of
+   * the material, so the text isn't laid out again on each frame. No effect is played if null.
+   *
+   * The effect is played over `animationDuration` each time the text changes, unless it is driven
+   * by `animationProgress`. The `animation-start` event is emitted when it starts moving,
+   * `animation-complete` when it reaches its end, and `animation-stop` when it is stopped or
+   * restarted before its end.
+   */
+  animation: string | null
+
+  /**
+   * @default null
+   * The progress of the `animation` from 0 to 1, driving it instead of playing it over time.
+   */
+  animationProgress: number | string | null
+
+  /**
+   * @default 1
+   * The time the `animation` takes to play, in seconds.
+   */
+  animationDuration: number | string
+
+  /**
+   * @default 0
+   * The time the `animation` waits for before it starts playing, in seconds.
+   */
+  animationDelay: number | string
+
+  /**
+   * @default false
+   * Whether the `animation` plays again from its start each time it ends, until it is stopped.
+   */
+  animationLoop: boolean
+
+  /**
+   * @default 0.3
+   * The distance the glyphs are moved by the `'slide'`, `'wave'` and `'shake'` effects, as a
+   * multiple of the font size.
+   */
+  animationAmplitude: number | string
+
+  /**
+   * @default 1
+   * Controls number of vertical/horizontal segments that make up each glyph's rectangular
+   * plane. Defaults to 1. This can be increased to provide more geometrical detail for custom
+   * vertex shader effects, for example.
+   */
+  glyphGeometryDetail: number | string
+
+  /**
+   * @default null
+   * The size of each glyph's SDF (signed distance field) used for rendering. This must be a
+   * power-of-two number. Defaults to 64 which is generally a good balance of size and quality
+   * for most fonts. Larger sizes can improve the quality of glyph rendering by increasing
+   * the sharpness of corners and preventing loss of very thin lines, at the expense of
+   * increased memory footprint and longer SDF generation time.
+   */
+  sdfGlyphSize: number | string | null
+
+  /**
+   * @default false
+   * Mirrors the text in a visually hidden DOM element, so that it is read by screen readers, found
+   * by the find-in-page of the browser and translated by translation tools. The element follows
+   * `text` or the text of the `markup`, `direction`, `ariaLabel` and `role`.
+   *
+   * While pointer events of the text are listened, the element can also get the keyboard focus,
+   * which is emitted as `pointerenter` and `pointerleave`, and activated by a click or the enter and
+   * space keys, which is emitted as `click`. The pointer is placed at the center of the text block.
+   */
+  accessible: boolean
+
+  /**
+   * @default null
+   * The `aria-label` of the accessible mirror, read by screen readers instead of the text.
+   */
+  ariaLabel: string | null
+
+  /**
+   * @default null
+   * The ARIA `role` of the accessible mirror, e.g. `'button'` or `'heading'`.
+   */
+  role: string | null
+}
+
+interface TroikaTextData {
+  /**
+   * The rendering data of the last completed sync, or null until the first sync completes.
+   * Includes `blockBounds`, `visibleBounds`, `caretPositions`, `lineHeight` and `timings`.
+   */
+  textRenderInfo: TroikaTextRenderInfo | null
+  /** Whether a sync is in progress. */
+  syncing: boolean
+  /**
+   * The number of child components handling the pointer events of this text, which need them to be
+   * listened even if the parent doesn't listen to them.
+   */
+  pointerConsumers: number
+  /** The fonts registered under the names in `fontNames`. */
+  namedFonts: { [name: string]: TroikaFont }
+  /** The font size chosen to fit the box, or null when the text isn't fitted. */
+  fittedFontSize: number | null
+  /** The index the full text is cut at to fit `maxLines`, or null while it is laid out in full. */
+  truncateAt: number | null
+  /**
+   * The indexes in `displayText` where the lines of the run meshes wrap to fit `maxWidth`, or null
+   * until the runs are measured unwrapped.
+   */
+  runBreaks: number[] | null
+  /** Whether the text shown is truncated, as of the last completed layout. */
+  truncated: boolean
+}
+
+interface TroikaTextComputed {
+  get inst(): Text
+  /** The parsed `markup`, or null if it isn't set. */
+  get parsedMarkup(): ParsedMarkup | null
+  /** The full text, without markup. */
+  get plainText(): string
+  /** The string laid out by troika; the `plainText`, truncated if it overflows. */
+  get displayText(): string
+  /** The parsed `colorRanges` merged with the colors of the markup. */
+  get textColorRanges(): { [index: number]: colorInitializer } | null
+  /**
+   * The runs of the markup split by the fonts of the `fonts` chain, or null if neither `markup`
+   * nor `fonts` is set.
+   */
+  get styledRuns(): MarkupRun[] | null
+  /** The font of the instance; the font of every styled run if they share one, or else `font`. */
+  get textFont(): string | null
+  /** The fonts used by the text, which may be names of registered fonts. */
+  get fontNames(): string[]
+  /**
+   * The styled runs of each line, in visual order, when some of them need a mesh of their own, or
+   * null if the text is rendered by the instance alone.
+   */
+  get runLines(): MarkupRun[][] | null
+  /** The URL of the font, resolved from the registered font if `textFont` is a name. */
+  get fontSrc(): string | null
+  /** The `sdfGlyphSize`, defaulting to the one of the registered font. */
+  get fontSdfGlyphSize(): number | null
+  /** The options of the fit, or null if neither `fitWidth` nor `fitHeight` is set. */
+  get fitOptions(): FitOptions | null
+  /** The font size the text is laid out at, fitted to the box if any. */
+  get resolvedFontSize(): number
+  /** The `curveRadius`, or 0 while the text follows a `path`. */
+  get resolvedCurveRadius(): number
+  /** The name of the curve of the `path`, or null if it isn't a name. */
+  get pathName(): string | null
+  /** The curve of the `path` when given as a curve or as SVG path data. */
+  get parsedPath(): Curve<Vector2 | Vector3> | null
+  /**
+   * The `[minX, minY, maxX, maxY]` rect of the whole text block in local units, or null until the
+   * first sync completes.
+   */
+  get bounds(): number[] | null
+  /** The nearest VglRenderer ancestor, whose camera is used for hit testing. */
+  get renderer(): VglRendererType | null
+  /** Whether pointer events of the text are listened, by the parent or child components. */
+  get pointerListened(): boolean
+  /** The canvas listened for pointer events, or null if no pointer event is listened. */
+  get pointerTarget(): HTMLCanvasElement | null
+  /** The options of the billboard, or null if neither `billboard` nor `screenSize` is used. */
+  get billboardOptions(): BillboardOptions | null
+  /**
+   * Whether the instance and its run meshes are frustum culled, which they can't be while their
+   * world matrix is overridden before rendering.
+   */
+  get frustumCulled(): boolean
+  /** The content and attributes of the accessible mirror, or null if the text isn't `accessible`. */
+  get mirrorOptions(): MirrorOptions | null
+  /** Whether the styles of the text can be drawn by a TroikaTextBatch. */
+  get batchable(): boolean
+  /** Whether the glyphs are drawn by the TroikaTextBatch ancestor instead of the instance. */
+  get batched(): boolean
+  /** The mesh of the background plate, a child of the instance. */
+  get backgroundFill(): Mesh
+  /** The mesh of the border of the background, a child of the instance. */
+  get backgroundBorder(): Mesh
+  /** The rect of the background on the text plane, or null until the first sync completes. */
+  get backgroundRect(): TextRect | null
+  get backgroundGeometry(): BufferGeometry
+  get borderGeometry(): BufferGeometry
+}
+
+interface TroikaTextMethods {
+  /**
+   * Marks the text layout as dirty. The instance will be synced at next tick. Even if this method
+   * was called multiple times, it will be synced just once.
+   */
+  requestSync(): void
+  /**
+   * Requests a re-render of the instance at next tick, without changing the text layout. Even if
+   * this method was called multiple times, it will be emitted just once.
+   */
+  requestEmit(): void
+  /** Requests a sync or an emit, as classified for the shared props. */
+  requestUpdate(update: TextPropUpdate): void
+  /** Sets a shared prop on the instance as it is given, and requests the update it needs. */
+  updateTextProp(name: TextPropName, value: unknown): void
+  /** Reserves a call to `flush` at next tick, unless one is already reserved. */
+  reserveFlush(): void
+  /** Performs the sync and emit requested since the last flush. */
+  flush(): void
+  /**
+   * Updates the text render info and emits `sync-complete`, unless the text has to be laid out
+   * again at another size to fit the box.
+   */
+  completeSync(textRenderInfo: TroikaTextRenderInfo): void
+  /**
+   * Takes a step of the search for the font size fitting the box, from the text laid out at the
+   * current size. Returns true if the text has to be laid out again at another size, or emits
+   * `fit` with the size if it is the one.
+   */
+  stepFit(textRenderInfo: TroikaTextRenderInfo): boolean
+  /**
+   * Takes a step of the truncation, from the text laid out with the current cut. Returns true if
+   * the text has to be laid out again with another cut, or emits `truncate` if the truncation
+   * changed.
+   */
+  stepTruncation(textRenderInfo: TroikaTextRenderInfo): boolean
+  /** Requests a sync for a step of the fit or the truncation, without restarting them. */
+  requestStep(): void
+  /**
+   * Restarts the fit and the truncation after a change of their options, which doesn't change the
+   * layout by itself.
+   */
+  refit(): void
+  /**
+   * Updates the run meshes from `runLines`, syncing the changed ones. The runs are laid out again
+   * once synced, or right away if `relayout` is true.
+   */
+  syncRuns(relayout: boolean): void
+  /** Moves the run meshes to their laid out offsets, following `curveRadius` and `orientation`. */
+  placeRuns(): void
+  /** Disposes of the run meshes. */
+  clearRuns(): void
+  /**
+   * Casts a ray from the renderer's camera through the position of a DOM event, and resolves the
+   * character under it. Returns null if the text is not under the pointer. If `unbounded` is true,
+   * positions off the text block are resolved to the extended text plane instead.
+   */
+  hitTest(event: MouseEvent, unbounded?: boolean): TroikaTextPointerHit | null
+  /** Emits pointer events for a DOM event on the renderer's canvas. */
+  handlePointerEvent(event: MouseEvent): void
+  /** Creates, updates or removes the accessible mirror from the `mirrorOptions`. */
+  updateMirror(): void
+  /** Emits pointer events for a focus, a blur or an activation of the accessible mirror. */
+  handleMirrorEvent(event: Event): void
+  /**
+   * Overrides the world matrix of the instance for a camera, as set by `billboard` and
+   * `screenSize`. Called before rendering and hit testing.
+   */
+  transformText(camera: Camera, renderer: WebGLRenderer): void
+  /** Called each time right before the instance or one of its run meshes is rendered. */
+  beforeRender(camera: Camera, renderer: WebGLRenderer, scene: Scene): void
+  /**
+   * Sets the base material of the instance from the `material`, wrapped by the path material and
+   * the animation material if any.
+   */
+  setMaterial(): void
+  /**
+   * Wraps the base material of the instance in a path material while there is a path, and the text
+   * material troika derives from it in an animation material while there is an `animation`, or
+   * unwraps them.
+   */
+  updateMaterial(): void
+  setNamedPath(curve?: Curve<Vector2 | Vector3>): void
+  /** Samples the curve of the `path` again. */
+  updatePath(): void
+  /** Sets the path uniforms of a material for a mesh of the text, right before it is drawn. */
+  preparePath(mesh: Text, material: Material): void
+  /**
+   * Plays the `animation` from its start, unless it is driven by `animationProgress`. Emits
+   * `animation-stop` if it was still playing.
+   */
+  playAnimation(): void
+  /** Stops the `animation` if it is playing, showing the text as at its end, and emits `animation-stop`. */
+  stopAnimation(): void
+  /** Advances the playing `animation` to the current time, and requests the next frame until it ends. */
+  tickAnimation(): void
+  /** Sets the progress of the `animation` and renders it. */
+  setAnimationProgress(progress: number): void
+  /** Applies the effect, its amplitude, the glyph count and the progress to the animation material. */
+  updateAnimation(): void
+  /** Numbers the glyphs of the instance or of the run meshes in the order of the text, for the `animation`. */
+  updateGlyphOrder(): void
+  /** Applies the colors, the opacity and the `depthOffset` to the materials of the background. */
+  updateBackground(): void
+  /** Looks up the registered fonts of `fontNames` again. */
+  updateNamedFonts(): void
+  /** Resolves a font to its URL if it is the name of a registered font. */
+  resolveFont(font: string | null): string | null
+  /** The `sdfGlyphSize` for a font, defaulting to the one of the registered font. */
+  resolveSdfGlyphSize(font: string | null): number | null
+}
+
+/** Non-reactive bookkeeping for the batched sync and emit requests. */
+interface TroikaTextState {
+  needsSync?: boolean
+  needsEmit?: boolean
+  flushReserved?: boolean
+  /** Whether the pointer was on the text at the last pointer event. */
+  hovered?: boolean
+  /** The group holding the run meshes, rotated by the `orientation`. */
+  runGroup?: Object3D
+  runMeshes?: Text[]
+  runLayout?: RunLayout
+  /** Incremented by every `syncRuns`, so that outdated syncs don't lay out the runs. */
+  runGeneration?: number
+  /** The search for the fitting font size, restarted by every sync request. */
+  fitSearch?: FitSearch
+  /** The namespace of the fonts registered by VglTroikaFont components. */
+  fontNamespace?: FontNamespace
+  /** The curve registered under the `pathName`. */
+  namedPath?: Curve<Vector2 | Vector3>
+  /** The sampled curve of the `path`, or null if there is none. */
+  pathLayout?: PathLayout | null
+  /** The base material of the instance while it follows a path. */
+  pathMaterial?: PathMaterial
+  /** The material of the instance and its run meshes while there is an `animation`. */
+  animationMaterial?: AnimationMaterial
+  /** The progress of the `animation` shown. */
+  animationValue?: number
+  /** The time the playing `animation` was started at, or undefined while it isn't playing. */
+  animationStartTime?: number
+  /** Whether the playing `animation` is past its delay. */
+  animationStarted?: boolean
+  animationFrameRequest?: number
+  /** Whether the `animation` is played once the text being synced is laid out. */
+  animationPending?: boolean
+  /** The number of glyphs numbered by `updateGlyphOrder`. */
+  glyphCount?: number
+  /** The visually hidden element mirroring the text while it is `accessible`. */
+  mirror?: HTMLElement
+}
+
+export type TroikaTextType =
+  TroikaTextData &
+  TroikaTextComputed &
+  TroikaTextMethods &
+  TroikaTextState &
+  TroikaTextProps &
+  { troikaTextBatch: TroikaTextBatchType | null, troikaTextStack: TroikaTextStackType | null } &
+  VglMeshType
+
+/** Watches the direct shared props, setting them on the instance. */
+const directTextPropWatchers = Object.fromEntries(directTextProps.map((name) => [name, function (this: TroikaTextType, value: unknown): void {
+  this.updateTextProp(name, value)
+}]))
+
+const TroikaText = (Vue.extend(VglMesh) as VueConstructor<VglMeshType>).extend<TroikaTextData, TroikaTextMethods, TroikaTextComputed, TroikaTextProps>({
+  mixins: [VglMesh],
+
+  inject: {
+    troikaTextBatch: { default: null },
+    troikaTextStack: { default: null }
+  },
+
+  props: {
+    ...textPropOptions,
+    markup: { type: String, default: null },
+    path: { type: [String, Curve], default: null },
+    pathOffset: { type: [String, Number], default: 0, validator: numberValidator('pathOffset') },
+    pathAlign: { type: String, default: 'start', validator: keywordValidator('pathAlign', ['start', 'center', 'end']) },
+    boldFont: { type: String, default: null },
+    fonts: { type: Array, default: null, validator: nullableValidator(describedValidator('fonts', 'an array of fonts, or of objects with a font', validateFontChain)) },
+    fitWidth: { type: [String, Number], default: null, validator: nullableValidator(numberValidator('fitWidth')) },
+    fitHeight: { type: [String, Number], default: null, validator: nullableValidator(numberValidator('fitHeight')) },
+    fit: { type: String, default: 'shrink', validator: keywordValidator('fit', ['shrink', 'grow', 'both']) },
+    minFontSize: { type: [String, Number], default: 0, validator: numberValidator('minFontSize') },
+    maxFontSize: { type: [String, Number], default: Infinity, validator: numberValidator('maxFontSize') },
+    maxLines: { type: [String, Number], default: Infinity, validator: numberValidator('maxLines') },
+    overflow: { type: String, default: null, validator: nullableValidator(keywordValidator('overflow', ['ellipsis', 'clip'])) },
+    backgroundColor: { type: [String, Color, Number], default: null, validator: nullableValidator(colorValidator('backgroundColor')) },
+    backgroundOpacity: { type: [String, Number], default: 1, validator: numberValidator('backgroundOpacity') },
+    padding: { type: [Number, String, Array], default: 0, validator: paddingValidator('padding') },
+    borderRadius: { type: [String, Number], default: 0, validator: numberValidator('borderRadius') },
+    borderColor: { type: [String, Color, Number], default: null, validator: nullableValidator(colorValidator('borderColor')) },
+    borderWidth: { type: [String, Number], default: 0, validator: numberValidator('borderWidth') },
+    billboard: { type: String, default: 'none', validator: keywordValidator('billboard', ['none', 'full', 'y-axis']) },
+    screenSize: { type: [String, Number], default: null, validator: nullableValidator(numberValidator('screenSize')) },
+    animation: { type: String, default: null, validator: nullableValidator(keywordValidator('animation', animationEffects)) },
+    animationProgress: { type: [String, Number], default: null, validator: nullableValidator(numberValidator('animationProgress')) },
+    animationDuration: { type: [String, Number], default: 1, validator: numberValidator('animationDuration') },
+    animationDelay: { type: [String, Number], default: 0, validator: numberValidator('animationDelay') },
+    animationLoop: { type: Boolean, default: false },
+    animationAmplitude: { type: [String, Number], default: 0.3, validator: numberValidator('animationAmplitude') },
+    accessible: { type: Boolean, default: false },
+    ariaLabel: { type: String, default: null },
+    role: { type: String, default: null }
+  },
+
+  data(): TroikaTextData {
+    return {
+      textRenderInfo: null,
+      syncing: false,
+      pointerConsumers: 0,
+      namedFonts: {},
+      fittedFontSize: null,
+      truncateAt: null,
+      runBreaks: null,
+      truncated: false
+    }
+  },
+
+  provide(): { troikaText: Vue, troikaTextStack: null } {
+    // Texts nested in a text move with it rather than being stacked.
+    return { troikaText: this, troikaTextStack: null }
+  },
+
+  computed: {
+    /**
+     * The Text instance. Emits `sync-start` when troika starts laying out the text, and
+     * `sync-complete` with the new `textRenderInfo` when the layout is ready.
+     */
+    inst(this: TroikaTextType): Text {
+      // Created first, so that the background is drawn before the glyphs among the transparent objects at the same depth.
+      const { backgroundFill, backgroundBorder } = this
+      const mesh = new Text()
+      mesh.add(backgroundFill, backgroundBorder)
+      // While run meshes render the text, the instance itself is empty and its syncs are ignored.
+      mesh.addEventListener('syncstart', () => {
+        if (this.runLines || this.syncing) return
+        this.syncing = true
+        this.$emit('sync-start')
+      })
+      mesh.addEventListener('synccomplete', () => {
+        this.updateGlyphOrder()
+        if (!this.runLines) this.completeSync(mesh.textRenderInfo as TroikaTextRenderInfo)
+      })
+      hookBeforeRender(mesh, this.beforeRender)
+      hookBeforeRender(mesh, (camera, renderer, scene, material) => this.preparePath(mesh, material))
+      return mesh
+    },
+    parsedMarkup(this: TroikaTextType): ParsedMarkup | null {
+      return this.markup == null ? null : parseMarkup(this.markup)
+    },
+    plainText(this: TroikaTextType): string {
+      return this.parsedMarkup ? this.parsedMarkup.text : this.text
+    },
+    displayText(this: TroikaTextType): string {
+      if (this.truncateAt === null) return this.plainText
+      return truncateText(this.plainText, this.truncateAt, this.overflow === 'ellipsis' ? ellipsis : '')
+    },
+    textColorRanges(this: TroikaTextType): { [index: number]: colorInitializer } | null {
+      const colorRanges = nullableParser(parseColorRanges)(this.colorRanges)
+      if (!this.parsedMarkup) return colorRanges
+      return mergeColorRanges(this.parsedMarkup.runs, colorRanges, this.color == null ? 0xffffff : this.color)
+    },
+    styledRuns(this: TroikaTextType): MarkupRun[] | null {
+      if (!this.parsedMarkup && !this.fonts) return null
+      let runs = this.parsedMarkup ? this.parsedMarkup.runs : [{ start: 0, text: this.plainText, style: {} }]
+      if (this.truncateAt !== null) runs = truncateRuns(runs, this.truncateAt, this.overflow === 'ellipsis' ? ellipsis : '')
+      return this.fonts ? splitRunsByFont(runs, this.fonts) : runs
+    },
+    textFont(this: TroikaTextType): string | null {
+      const runs = this.styledRuns
+      if (!runs || !runs.length) return this.font
+      const { font } = runs[0].style
+      return font !== undefined && runs.every(({ style }) => style.font === font) ? font : this.font
+    },
+    fontNames(this: TroikaTextType): string[] {
+      const names = [this.font, this.boldFont, ...(this.styledRuns || []).map(({ style }) => style.font)]
+      return names.filter((name, index): name is string => name != null && names.indexOf(name) === index)
+    },
+    runLines(this: TroikaTextType): MarkupRun[][] | null {
+      const runs = this.styledRuns
+      if (!runs) return null
+      const fontOf = ({ style }: MarkupRun) => (style.font === undefined ? this.font : style.font)
+      if (!runs.some((run) => needsOwnMesh(run.style) || fontOf(run) !== fontOf(runs[0]))) return null
+      const { direction } = this
+      const { levels } = bidi.getEmbeddingLevels(this.displayText, direction === 'ltr' || direction === 'rtl' ? direction : undefined)
+      const lines = wrapRunLines(splitRunLines(splitRunsByLevel(runs, levels)), this.runBreaks || [])
+      // The spaces of justified lines are widened between the runs.
+      const justify = this.textAlign === 'justify'
+      return lines.map((line) => orderRunLine(justify && isSoftWrapped(line, this.displayText) ? splitRunsAtSpaces(line) : line))
+    },
+    fontSrc(this: TroikaTextType): string | null {
+      return this.resolveFont(this.textFont)
+    },
+    fontSdfGlyphSize(this: TroikaTextType): number | null {
+      return this.resolveSdfGlyphSize(this.textFont)
+    },
+    fitOptions(this: TroikaTextType): FitOptions | null {
+      if (this.fitWidth == null && this.fitHeight == null) return null
+      return {
+        fit: this.fit,
+        fontSize: parseNumber(this.fontSize),
+        minFontSize: parseNumber(this.minFontSize),
+        maxFontSize: parseNumber(this.maxFontSize),
+        fitWidth: nullableParser(parseNumber)(this.fitWidth),
+        fitHeight: nullableParser(parseNumber)(this.fitHeight)
+      }
+    },
+    resolvedFontSize(this: TroikaTextType): number {
+      return this.fitOptions && this.fittedFontSize != null ? this.fittedFontSize : parseNumber(this.fontSize)
+    },
+    resolvedCurveRadius(this: TroikaTextType): number {
+      return this.path == null ? parseNumber(this.curveRadius) : 0
+    },
+    pathName(this: TroikaTextType): string | null {
+      return typeof this.path === 'string' && !isSvgPathData(this.path) ? this.path : null
+    },
+    parsedPath(this: TroikaTextType): Curve<Vector2 | Vector3> | null {
+      if (typeof this.path !== 'string') return this.path
+      return isSvgPathData(this.path) ? parseSvgPath(this.path) : null
+    },
+    bounds(this: TroikaTextType): number[] | null {
+      return this.textRenderInfo && this.textRenderInfo.blockBounds
+    },
+    renderer(this: TroikaTextType): VglRendererType | null {
+      return findRenderer(this)
+    },
+    pointerListened(this: TroikaTextType): boolean {
+      return this.pointerConsumers > 0 || pointerEventNames.some((name) => name in this.$listeners)
+    },
+    pointerTarget(this: TroikaTextType): HTMLCanvasElement | null {
+      // Raycasting on every pointer move is only worth it when somebody is listening.
+      if (!this.renderer || !this.pointerListened) return null
+      return this.renderer.inst.domElement
+    },
+    billboardOptions(this: TroikaTextType): BillboardOptions | null {
+      if (this.billboard === 'none' && this.screenSize == null) return null
+      return { billboard: this.billboard, screenSize: nullableParser(parseNumber)(this.screenSize), fontSize: this.resolvedFontSize, orientation: this.orientation }
+    },
+    frustumCulled(this: TroikaTextType): boolean {
+      return !this.billboardOptions && this.path == null
+    },
+    mirrorOptions(this: TroikaTextType): MirrorOptions | null {
+      if (!this.accessible) return null
+      const { plainText: text, direction, ariaLabel, role, pointerListened: focusable } = this
+      return { text, direction, ariaLabel, role, focusable }
+    },
+    batchable(this: TroikaTextType): boolean {
+      if (this.runLines || this.material != null || this.path != null || this.animation != null) return false
+      const outlines = [this.outlineWidth, this.outlineBlur, this.outlineOffsetX, this.outlineOffsetY, this.strokeWidth]
+      const outlined = outlines.some((width) => parseLength(width))
+      return !outlined && parseNumber(this.fillOpacity) === 1 && this.clipRect == null && !this.resolvedCurveRadius && !parseNumber(this.depthOffset)
+    },
+    batched(this: TroikaTextType): boolean {
+      return !!this.troikaTextBatch && this.batchable
+    },
+    backgroundFill(this: TroikaTextType): Mesh {
+      return createBackgroundMesh(this.beforeRender)
+    },
+    backgroundBorder(this: TroikaTextType): Mesh {
+      return createBackgroundMesh(this.beforeRender)
+    },
+    backgroundRect(this: TroikaTextType): TextRect | null {
+      const { bounds } = this
+      if (!bounds) return null
+      const [top, right, bottom, left] = parsePadding(this.padding)
+      return { left: bounds[0] - left, bottom: bounds[1] - bottom, right: bounds[2] + right, top: bounds[3] + top }
+    },
+    backgroundGeometry(this: TroikaTextType): BufferGeometry {
+      const rect = this.backgroundRect
+      if (!rect || this.backgroundColor == null) return new BufferGeometry()
+      return createRoundedRectGeometry(rect, parseNumber(this.borderRadius), this.resolvedCurveRadius, getOrientationMatrix(this.orientation))
+    },
+    borderGeometry(this: TroikaTextType): BufferGeometry {
+      const rect = this.backgroundRect
+      const borderWidth = parseNumber(this.borderWidth)
+      if (!rect || this.borderColor == null || !(borderWidth > 0)) return new BufferGeometry()
+      return createRoundedBorderGeometry(rect, parseNumber(this.borderRadius), borderWidth, this.resolvedCurveRadius, getOrientationMatrix(this.orientation))
+    }
+  },
+
+  methods: {
+    requestSync(this: TroikaTextType): void {
+      // The fit, the truncation and the wrapping of the runs start over from the full text at the current size.
+      this.fitSearch = undefined
+      this.truncateAt = this.runBreaks = null
+      this.requestStep()
+    },
+    requestStep(this: TroikaTextType): void {
+      this.needsSync = true
+      this.reserveFlush()
+    },
+    refit(this: TroikaTextType): void {
+      this.fitSearch = undefined
+      if (this.truncateAt !== null) {
+        this.requestSync()
+        return
+      }
+      // A sync in progress takes the first step once complete; otherwise the current layout is the first step.
+      if (this.syncing || !this.textRenderInfo) return
+      if (this.stepFit(this.textRenderInfo) || this.stepTruncation(this.textRenderInfo)) {
+        this.syncing = true
+        this.$emit('sync-start')
+      }
+    },
+    requestEmit(this: TroikaTextType): void {
+      this.needsEmit = true
+      this.reserveFlush()
+    },
+    requestUpdate(this: TroikaTextType, update: TextPropUpdate): void {
+      if (update === 'sync') this.requestSync()
+      else this.requestEmit()
+    },
+    updateTextProp(this: TroikaTextType, name: TextPropName, value: unknown): void {
+      this.requestUpdate(applyTextProp(this.inst, name, value))
+    },
+    reserveFlush(this: TroikaTextType): void {
+      if (!this.flushReserved) {
+        this.flushReserved = true
+        this.$nextTick(this.flush)
+      }
+    },
+    flush(this: TroikaTextType): void {
+      const { needsEmit } = this
+      // Syncing before the named fonts are ready would show the fallback font in the meantime.
+      const loadingFont = this.needsSync && Object.values(this.namedFonts).find(({ status }) => status === 'loading')
+      const needsSync = this.needsSync && !loadingFont
+      this.flushReserved = this.needsEmit = false
+      this.needsSync = !!loadingFont
+      if (loadingFont) {
+        loadingFont.ready.then(() => {
+          if (this.needsSync) this.reserveFlush()
+        })
+      }
+      if (needsSync || needsEmit) {
+        if (this.runLines) this.syncRuns(!!needsSync)
+        else this.clearRuns()
+      }
+      // A sync ends with an emit on `synccomplete`, but the emit-only changes shouldn't wait for it.
+      if (needsSync) this.inst.sync()
+      if (needsEmit) this.vglObject3d.emit()
+    },
+    completeSync(this: TroikaTextType, textRenderInfo: TroikaTextRenderInfo): void {
+      // The fit is measured on the full text, before truncating it.
+      if (this.truncateAt === null && this.stepFit(textRenderInfo)) return
+      if (this.stepTruncation(textRenderInfo)) return
+      this.syncing = false
+      // Frozen by troika and by `layoutRuns`, so that Vue doesn't observe the SDF texture and the
+      // typed arrays it refers to.
+      this.textRenderInfo = textRenderInfo
+      this.vglObject3d.emit()
+      this.$emit('sync-complete', textRenderInfo)
+      if (this.troikaTextBatch) this.troikaTextBatch.invalidate()
+      if (this.animationPending) {
+        this.animationPending = false
+        this.playAnimation()
+      }
+    },
+    stepFit(this: TroikaTextType, textRenderInfo: TroikaTextRenderInfo): boolean {
+      const options = this.fitOptions
+      if (!options) return false
+      const search = this.fitSearch || (this.fitSearch = createFitSearch())
+      const size = stepFitSearch(search, this.resolvedFontSize, textRenderInfo.blockBounds, options)
+      if (size === null) {
+        this.fitSearch = undefined
+        this.$emit('fit', this.resolvedFontSize)
+        return false
+      }
+      this.fittedFontSize = size
+      return true
+    },
+    stepTruncation(this: TroikaTextType, textRenderInfo: TroikaTextRenderInfo): boolean {
+      const { overflow, truncateAt, displayText } = this
+      const maxLines = parseNumber(this.maxLines)
+      const maxWidth = overflow != null && this.whiteSpace === 'nowrap' ? parseNumber(this.maxWidth) : Infinity
+      const index = maxLines === Infinity && maxWidth === Infinity ? -1 : findOverflowIndex(textRenderInfo, displayText, maxLines, maxWidth)
+      // A truncated text still overflowing had the ellipsis pushed out, and is cut shorter.
+      const kept = truncateAt === null ? Infinity : displayText.length - (overflow === 'ellipsis' ? ellipsis.length : 0)
+      if (index >= 0 && kept > 0) {
+        this.truncateAt = Math.max(0, Math.min(index, kept - 1))
+        return true
+      }
+      const truncated = truncateAt !== null
+      if (truncated !== this.truncated) {
+        this.truncated = truncated
+        this.$emit('truncate', truncated, this.plainText)
+      }
+      return false
+    },
+    syncRuns(this: TroikaTextType, relayout: boolean): void {
+      const lines = this.runLines as MarkupRun[][]
+      const runs = lines.flat()
+      const group = this.runGroup || (this.runGroup = new Object3D())
+      const meshes = this.runMeshes || (this.runMeshes = [])
+      if (!group.parent) this.inst.add(group)
+      while (meshes.length > runs.length) {
+        const mesh = meshes.pop() as Text
+        group.remove(mesh)
+        mesh.dispose()
+      }
+      while (meshes.length < runs.length) {
+        const mesh = new Text()
+        // Laid out on a single line with the baseline at the origin; the block is arranged by `layoutRuns`.
+        Object.assign(mesh, { anchorX: 0, anchorY: 'top-baseline', whiteSpace: 'nowrap', maxWidth: Infinity })
+        // The instance may not be rendered, nor before the runs, while they are billboarded with it.
+        hookBeforeRender(mesh, this.beforeRender)
+        hookBeforeRender(mesh, (camera, renderer, scene, material) => this.preparePath(mesh, material))
+        mesh.addEventListener('synccomplete', () => this.updateGlyphOrder())
+        meshes.push(mesh)
+        group.add(mesh)
+      }
+
+      const { material } = this.inst
+      const textColorRanges = this.textColorRanges
+      let pending = false
+      runs.forEach(({ start, text, level, style }, index) => {
+        const mesh = meshes[index]
+        const boldFont = style.bold ? this.boldFont : null
+        const fauxBold = style.bold && !boldFont && style.outlineWidth === undefined
+        const font = style.font || boldFont || this.font
+        const layout = {
+          text,
+          font: this.resolveFont(font),
+          fontSize: this.resolvedFontSize * (style.size || 1),
+          letterSpacing: parseNumber(this.letterSpacing),
+          lineHeight: parseLength(this.lineHeight),
+          direction: level === undefined ? this.direction : level % 2 ? 'rtl' : 'ltr',
+          sdfGlyphSize: this.resolveSdfGlyphSize(font),
+          // Without colors of their own, the runs take the `color`, or that of the material if null.
+          colorRanges: style.color === undefined && this.colorRanges == null ? null : sliceColorRanges(textColorRanges, start, text.length)
+        }
+        // Only assigned when changed, since troika syncs again on any new `colorRanges` object.
+        const key = JSON.stringify(layout)
+        const sync = runSyncs.get(mesh)
+        if (!sync || sync.key !== key) {
+          Object.assign(mesh, layout)
+          runSyncs.set(mesh, { key, synced: new Promise((resolve) => mesh.sync(resolve)) })
+          pending = true
+        }
+        mesh.material = Array.isArray(material) ? material[material.length - 1] : material
+        mesh.color = this.color
+        mesh.outlineWidth = fauxBold ? fauxBoldWidth : style.outlineWidth !== undefined ? style.outlineWidth : parseLength(this.outlineWidth)
+        if (fauxBold) mesh.outlineColor = style.color !== undefined ? style.color : this.color == null ? 0xffffff : this.color
+        else mesh.outlineColor = style.outlineColor !== undefined ? style.outlineColor : this.outlineColor
+        mesh.outlineOpacity = parseNumber(this.outlineOpacity)
+        mesh.outlineBlur = parseLength(this.outlineBlur)
+        mesh.outlineOffsetX = parseLength(this.outlineOffsetX)
+        mesh.outlineOffsetY = parseLength(this.outlineOffsetY)
+        mesh.strokeWidth = parseLength(this.strokeWidth)
+        mesh.strokeColor = this.strokeColor
+        mesh.strokeOpacity = parseNumber(this.strokeOpacity)
+        mesh.fillOpacity = parseNumber(this.fillOpacity)
+        mesh.depthOffset = parseNumber(this.depthOffset)
+        mesh.glyphGeometryDetail = parseNumber(this.glyphGeometryDetail)
+        mesh.frustumCulled = this.frustumCulled
+      })
+
+      const generation = this.runGeneration = (this.runGeneration || 0) + 1
+      if (!pending && !relayout) {
+        this.placeRuns()
+        return
+      }
+      if (pending && !this.syncing) {
+        this.syncing = true
+        this.$emit('sync-start')
+      }
+      Promise.all(meshes.map((mesh) => (runSyncs.get(mesh) as { synced: Promise<void> }).synced)).then(() => {
+        if (generation !== this.runGeneration || !this.runMeshes) return
+        let index = 0
+        const syncedLines = lines.map((line) => line.map((run) => ({
+          run,
+          textRenderInfo: meshes[index++].textRenderInfo as TroikaTextRenderInfo
+        })))
+        if (this.runBreaks === null) {
+          // Wrapping splits the runs, and their meshes are synced again by the watcher of `runLines`.
+          const maxWidth = this.whiteSpace === 'nowrap' ? Infinity : parseNumber(this.maxWidth)
+          const breaks = maxWidth === Infinity ? [] : findRunBreaks(syncedLines, maxWidth, this.overflowWrap === 'break-word', parseNumber(this.textIndent))
+          if (breaks.length) {
+            this.runBreaks = breaks
+            return
+          }
+        }
+        this.runLayout = layoutRuns(syncedLines, {
+          text: this.displayText,
+          textAlign: this.textAlign,
+          textIndent: parseNumber(this.textIndent),
+          maxWidth: parseNumber(this.maxWidth),
+          anchorX: parseLength(this.anchorX),
+          anchorY: parseLength(this.anchorY)
+        })
+        this.placeRuns()
+        this.updateGlyphOrder()
+        this.completeSync(this.runLayout.textRenderInfo)
+      })
+    },
+    placeRuns(this: TroikaTextType): void {
+      const { runGroup, runMeshes, runLayout } = this
+      if (!runGroup || !runMeshes || !runLayout) return
+      runGroup.quaternion.setFromRotationMatrix(getOrientationMatrix(this.orientation))
+      const clipRect = nullableParser(parseFloatArray)(this.clipRect)
+      runMeshes.forEach((mesh, index) => {
+        const { x, y } = runLayout.offsets[index]
+        // Along a path, the offsets are applied before bending, by `preparePath`.
+        if (this.pathLayout) placeRun(mesh, 0, 0, 0)
+        else placeRun(mesh, x, y, this.resolvedCurveRadius)
+        mesh.curveRadius = this.resolvedCurveRadius
+        // The clip rect is in the coordinates of the whole block.
+        mesh.clipRect = clipRect && [clipRect[0] - x, clipRect[1] - y, clipRect[2] - x, clipRect[3] - y]
+      })
+    },
+    clearRuns(this: TroikaTextType): void {
+      if (this.runMeshes) this.runMeshes.forEach((mesh) => mesh.dispose())
+      if (this.runGroup) this.inst.remove(this.runGroup)
+      this.runGroup = this.runMeshes = this.runLayout = undefined
+    },
+    hitTest(this: TroikaTextType, event: MouseEvent, unbounded = false): TroikaTextPointerHit | null {
+      const camera = this.renderer && this.renderer.cameraRef
+      const { textRenderInfo } = this
+      if (!this.pointerTarget || !camera || !textRenderInfo) return null
+      const rect = this.pointerTarget.getBoundingClientRect()
+      const raycaster = new Raycaster()
+      raycaster.setFromCamera(new Vector2(
+        (event.clientX - rect.left) / rect.width * 2 - 1,
+        (event.clientY - rect.top) / rect.height * -2 + 1
+      ), camera)
+      this.transformText(camera, (this.renderer as VglRendererType).inst)
+      const intersection = intersectText(this.inst, raycaster, unbounded, textRenderInfo)
+      if (!intersection) return null
+      const { textCoords } = intersection
+      return {
+        ...intersection,
+        ...getCharacterAt(textRenderInfo, textCoords.x, textCoords.y),
+        originalEvent: event
+      }
+    },
+    handlePointerEvent(this: TroikaTextType, event: MouseEvent): void {
+      const hit = event.type === 'pointerleave' ? null : this.hitTest(event)
+      if (!hit) {
+        if (this.hovered) {
+          this.hovered = false
+          this.$emit('pointerleave', createLeaveEvent(event))
+        }
+        return
+      }
+      if (!this.hovered) {
+        this.hovered = true
+        this.$emit('pointerenter', hit)
+      }
+      this.$emit(event.type, hit)
+    },
+    updateMirror(this: TroikaTextType): void {
+      const options = this.mirrorOptions
+      let { mirror } = this
+      if (!options) {
+        if (mirror) {
+          mirrorEventNames.forEach((name) => (mirror as HTMLElement).removeEventListener(name, this.handleMirrorEvent))
+          mirror.remove()
+          this.mirror = undefined
+        }
+        return
+      }
+      if (!mirror) {
+        mirror = this.mirror = createMirror()
+        mirrorEventNames.forEach((name) => (mirror as HTMLElement).addEventListener(name, this.handleMirrorEvent))
+        document.body.appendChild(mirror)
+      }
+      updateMirror(mirror, options)
+    },
+    handleMirrorEvent(this: TroikaTextType, event: Event): void {
+      if (event.type === 'keydown') {
+        if (!isActivationKey(event as KeyboardEvent)) return
+        // Keeps the space key from scrolling the page.
+        event.preventDefault()
+        ;(this.mirror as HTMLElement).click()
+        return
+      }
+      if (event.type === 'blur') {
+        this.$emit('pointerleave', createLeaveEvent(event as FocusEvent))
+        return
+      }
+      const { textRenderInfo } = this
+      if (!textRenderInfo) return
+      const camera = (this.renderer && this.renderer.cameraRef) || undefined
+      if (camera) this.transformText(camera, (this.renderer as VglRendererType).inst)
+      const hit: TroikaTextPointerHit = {
+        ...getBlockCenter(this.inst, textRenderInfo, camera),
+        charIndex: -1,
+        lineIndex: 0,
+        originalEvent: event as MouseEvent | FocusEvent
+      }
+      this.$emit(event.type === 'focus' ? 'pointerenter' : 'click', hit)
+    },
+    updateNamedFonts(this: TroikaTextType): void {
+      const namedFonts: TroikaTextData['namedFonts'] = {}
+      this.fontNames.forEach((name) => {
+        const font = this.fontNamespace && this.fontNamespace.get(name)
+        if (font) namedFonts[name] = font
+      })
+      this.namedFonts = namedFonts
+    },
+    setMaterial(this: TroikaTextType): void {
+      vglMeshMethods.setMaterial.call(this)
+      this.updateMaterial()
+    },
+    updateMaterial(this: TroikaTextType): void {
+      const { material } = this.inst
+      let textMaterial = unwrapAnimationMaterial(Array.isArray(material) ? material[material.length - 1] : material) as DerivedMaterial
+      const baseMaterial = unwrapPathMaterial(textMaterial.baseMaterial)
+      let textBaseMaterial = baseMaterial
+      if (this.pathLayout) {
+        if (!this.pathMaterial || this.pathMaterial.baseMaterial !== baseMaterial) {
+          if (this.pathMaterial) this.pathMaterial.dispose()
+          this.pathMaterial = createPathMaterial(baseMaterial)
+        }
+        textBaseMaterial = this.pathMaterial
+      }
+      // Troika derives a new text material when given another base material.
+      if (textMaterial.baseMaterial !== textBaseMaterial) {
+        this.inst.material = textBaseMaterial
+        const derived = this.inst.material
+        textMaterial = (Array.isArray(derived) ? derived[derived.length - 1] : derived) as DerivedMaterial
+      }
+      if (this.animation == null) {
+        if (this.animationMaterial) this.animationMaterial.dispose()
+        this.animationMaterial = undefined
+        this.inst.material = textMaterial
+        return
+      }
+      if (!this.animationMaterial || this.animationMaterial.baseMaterial !== textMaterial) {
+        if (this.animationMaterial) this.animationMaterial.dispose()
+        this.animationMaterial = createAnimationMaterial(textMaterial)
+        this.updateAnimation()
+      }
+      this.inst.material = this.animationMaterial
+    },
+    setNamedPath(this: TroikaTextType, curve?: Curve<Vector2 | Vector3>): void {
+      this.namedPath = curve
+      this.updatePath()
+    },
+    updatePath(this: TroikaTextType): void {
+      const curve = this.parsedPath || (this.pathName !== null && this.namedPath)
+      this.pathLayout = curve ? samplePath(curve) : null
+      this.updateMaterial()
+      this.requestEmit()
+    },
+    preparePath(this: TroikaTextType, mesh: Text, material: Material): void {
+      const { pathLayout } = this
+      const { uniforms } = material as PathMaterial
+      if (!pathLayout || !uniforms || !uniforms.uTroikaPathPoints) return
+      const index = this.runMeshes ? this.runMeshes.indexOf(mesh) : -1
+      const offset = index >= 0 && this.runLayout ? this.runLayout.offsets[index] : { x: 0, y: 0 }
+      uniforms.uTroikaPathPoints.value = pathLayout.points
+      uniforms.uTroikaPathLength.value = pathLayout.length
+      uniforms.uTroikaPathStart.value = getPathStart(pathLayout.length, this.bounds || [0, 0, 0, 0], parseNumber(this.pathOffset), this.pathAlign)
+      uniforms.uTroikaPathOffset.value.set(offset.x, offset.y)
+      uniforms.uTroikaPathOrient.value.setFromMatrix4(getOrientationMatrix(this.orientation, tempMat4))
+      // The material is shared by the run meshes, which three.js would draw with the uniforms of the first.
+      ;(material as ShaderMaterial & { uniformsNeedUpdate: boolean }).uniformsNeedUpdate = true
+    },
+    playAnimation(this: TroikaTextType): void {
+      this.stopAnimation()
+      if (this.animation == null || this.animationProgress != null) return
+      this.animationStartTime = performance.now()
+      this.animationStarted = false
+      this.tickAnimation()
+    },
+    stopAnimation(this: TroikaTextType): void {
+      if (this.animationStartTime === undefined) return
+      if (this.animationFrameRequest !== undefined) cancelAnimationFrame(this.animationFrameRequest)
+      this.animationStartTime = this.animationFrameRequest = undefined
+      this.setAnimationProgress(1)
+      this.$emit('animation-stop')
+    },
+    tickAnimation(this: TroikaTextType): void {
+      this.animationFrameRequest = undefined
+      const startTime = this.animationStartTime
+      if (startTime === undefined) return
+      const elapsed = (performance.now() - startTime) / 1000 - parseNumber(this.animationDelay)
+      if (elapsed >= 0 && !this.animationStarted) {
+        this.animationStarted = true
+        this.$emit('animation-start')
+      }
+      const duration = parseNumber(this.animationDuration)
+      const progress = duration > 0 ? Math.max(0, elapsed) / duration : elapsed >= 0 ? 1 : 0
+      if (progress >= 1 && !(this.animationLoop && duration > 0)) {
+        this.animationStartTime = undefined
+        this.setAnimationProgress(1)
+        this.$emit('animation-complete')
+        return
+      }
+      this.setAnimationProgress(progress % 1)
+      this.animationFrameRequest = requestAnimationFrame(this.tickAnimation)
+    },
+    setAnimationProgress(this: TroikaTextType, progress: number): void {
+      this.animationValue = progress
+      if (this.animationMaterial) this.animationMaterial.uniforms.uTroikaAnimProgress.value = progress
+      this.vglObject3d.emit()
+    },
+    updateAnimation(this: TroikaTextType): void {
+      const material = this.animationMaterial
+      if (!material || this.animation == null) return
+      setAnimationEffect(material, this.animation, parseNumber(this.animationAmplitude) * this.resolvedFontSize)
+      material.uniforms.uTroikaAnimCount.value = this.glyphCount || 0
+      material.uniforms.uTroikaAnimProgress.value = this.animationValue === undefined ? 1 : this.animationValue
+    },
+    updateGlyphOrder(this: TroikaTextType): void {
+      if (this.animation == null) return
+      const meshes = this.runMeshes || [this.inst]
+      const runs = this.runLines && this.runLines.flat()
+      // The run meshes are in visual order, and their glyphs are numbered in the order of the text.
+      const order = meshes.map((mesh, index) => index)
+      if (runs && runs.length === meshes.length) order.sort((a, b) => runs[a].start - runs[b].start)
+      let count = 0
+      order.forEach((index) => {
+        const { geometry, textRenderInfo } = meshes[index]
+        const glyphs = textRenderInfo ? textRenderInfo.glyphBounds.length / 4 : 0
+        setGlyphOrder(geometry as BufferGeometry, count, glyphs)
+        count += glyphs
+      })
+      this.glyphCount = count
+      if (this.animationMaterial) this.animationMaterial.uniforms.uTroikaAnimCount.value = count
+    },
+    updateBackground(this: TroikaTextType): void {
+      const meshes: [Mesh, colorInitializer | null][] = [[this.backgroundFill, this.backgroundColor], [this.backgroundBorder, this.borderColor]]
+      meshes.forEach(([mesh, color]) => {
+        const material = mesh.material as MeshBasicMaterial
+        mesh.visible = color != null
+        if (color != null) material.color.copy(parseColor(color))
+        material.opacity = parseNumber(this.backgroundOpacity)
+        material.polygonOffsetFactor = material.polygonOffsetUnits = parseNumber(this.depthOffset) + 1
+      })
+    },
+    transformText(this: TroikaTextType, camera: Camera, renderer: WebGLRenderer): void {
+      if (this.billboardOptions) applyBillboard(this.inst, camera, renderer, this.billboardOptions)
+    },
+    beforeRender(this: TroikaTextType, camera: Camera, renderer: WebGLRenderer): void {
+      this.transformText(camera, renderer)
+    },
+    resolveFont(this: TroikaTextType, font: string | null): string | null {
+      return font != null && this.namedFonts[font] ? this.namedFonts[font].src : font
+    },
+    resolveSdfGlyphSize(this: TroikaTextType, font: string | null): number | null {
+      if (this.sdfGlyphSize != null || font == null || !this.namedFonts[font]) return nullableParser(parseNumber)(this.sdfGlyphSize)
+      return this.namedFonts[font].sdfGlyphSize
+    }
+  },
+
+  watch: {
+    ...directTextPropWatchers,
+    plainText(this: TroikaTextType): void {
+      this.animationPending = true
+      this.requestSync()
+    },
+    parsedMarkup(this: TroikaTextType): void {
+      this.requestSync()
+    },
+    fonts(this: TroikaTextType): void {
+      this.requestSync()
+    },
+    displayText(this: TroikaTextType, displayText: string): void {
+      if (!this.runLines) this.inst.text = displayText
+      this.requestStep()
+    },
+    // Changed by the markup, the fonts and the truncation, which request their own syncs.
+    runLines(this: TroikaTextType, runLines: MarkupRun[][] | null): void {
+      this.inst.text = runLines ? '' : this.displayText
+      this.inst.colorRanges = runLines ? null : this.textColorRanges
+      this.requestStep()
+    },
+    resolvedCurveRadius(this: TroikaTextType, curveRadius: number): void {
+      this.inst.curveRadius = curveRadius
+      this.requestUpdate(textProps.curveRadius.update)
+    },
+    pathName(this: TroikaTextType, name: string | null, oldName: string | null): void {
+      const curves = this.vglNamespace.curves as VglNamespaceMap<Curve<Vector2 | Vector3>>
+      if (oldName !== null) curves.unlisten(oldName, this.setNamedPath)
+      if (name !== null) curves.listen(name, this.setNamedPath)
+      this.setNamedPath(name === null ? undefined : curves.get(name))
+    },
+    parsedPath(this: TroikaTextType): void {
+      this.updatePath()
+    },
+    pathOffset(this: TroikaTextType): void {
+      this.requestEmit()
+    },
+    pathAlign(this: TroikaTextType): void {
+      this.requestEmit()
+    },
+    fontNames(this: TroikaTextType, names: string[], oldNames: string[]): void {
+      const { fontNamespace } = this
+      if (!fontNamespace) return
+      oldNames.forEach((name) => fontNamespace.unlisten(name, this.updateNamedFonts))
+      names.forEach((name) => fontNamespace.listen(name, this.updateNamedFonts))
+      this.updateNamedFonts()
+    },
+    fontSrc(this: TroikaTextType, fontSrc: string | null): void {
+      this.inst.font = fontSrc
+      this.requestUpdate(textProps.font.update)
+    },
+    boldFont(this: TroikaTextType): void {
+      if (this.runLines) this.requestSync()
+    },
+    resolvedFontSize(this: TroikaTextType, fontSize: number): void {
+      this.inst.fontSize = fontSize
+      this.updateAnimation()
+      // Steps of the fit lay out the text again without restarting its search, but wrap it anew.
+      this.runBreaks = null
+      if (this.fitSearch) this.requestStep()
+      else this.requestSync()
+    },
+    fitOptions(this: TroikaTextType, fitOptions: FitOptions | null): void {
+      if (fitOptions) this.refit()
+      else this.fittedFontSize = null
+    },
+    maxLines(this: TroikaTextType): void {
+      this.refit()
+    },
+    overflow(this: TroikaTextType): void {
+      this.refit()
+    },
+    // Replace the direct watchers of the props with more to update than the instance.
+    color(this: TroikaTextType, color: TroikaTextProps['color']): void {
+      this.updateTextProp('color', color)
+      if (this.batched) (this.troikaTextBatch as TroikaTextBatchType).invalidate()
+    },
+    textColorRanges(this: TroikaTextType, textColorRanges: TroikaTextProps['colorRanges']): void {
+      if (!this.runLines) this.inst.colorRanges = textColorRanges
+      this.requestUpdate(textProps.colorRanges.update)
+    },
+    depthOffset(this: TroikaTextType, depthOffset: TroikaTextProps['depthOffset']): void {
+      this.updateTextProp('depthOffset', depthOffset)
+      this.updateBackground()
+    },
+    backgroundColor(this: TroikaTextType): void {
+      this.updateBackground()
+      this.requestEmit()
+    },
+    backgroundOpacity(this: TroikaTextType): void {
+      this.updateBackground()
+      this.requestEmit()
+    },
+    borderColor(this: TroikaTextType): void {
+      this.updateBackground()
+      this.requestEmit()
+    },
+    backgroundGeometry(this: TroikaTextType, geometry: BufferGeometry, oldGeometry: BufferGeometry): void {
+      this.backgroundFill.geometry = geometry
+      oldGeometry.dispose()
+      this.requestEmit()
+    },
+    borderGeometry(this: TroikaTextType, geometry: BufferGeometry, oldGeometry: BufferGeometry): void {
+      this.backgroundBorder.geometry = geometry
+      oldGeometry.dispose()
+      this.requestEmit()
+    },
+    billboardOptions(this: TroikaTextType): void {
+      this.requestEmit()
+    },
+    mirrorOptions(this: TroikaTextType): void {
+      this.updateMirror()
+    },
+    animation(this: TroikaTextType): void {
+      this.stopAnimation()
+      this.updateMaterial()
+      this.updateGlyphOrder()
+      this.updateAnimation()
+      this.requestEmit()
+      // A text being laid out plays the animation once it is ready.
+      if (this.syncing || !this.textRenderInfo) this.animationPending = true
+      else this.playAnimation()
+    },
+    animationProgress(this: TroikaTextType, progress: TroikaTextProps['animationProgress'], oldProgress: TroikaTextProps['animationProgress']): void {
+      if (progress == null) {
+        this.playAnimation()
+        return
+      }
+      const value = Math.min(1, Math.max(0, parseNumber(progress)))
+      const oldValue = oldProgress == null ? this.animationValue : Math.min(1, Math.max(0, parseNumber(oldProgress)))
+      this.stopAnimation()
+      if (this.animation != null && oldValue !== undefined) {
+        if (oldValue <= 0 && value > 0) this.$emit('animation-start')
+        if (oldValue < 1 && value >= 1) this.$emit('animation-complete')
+      }
+      this.setAnimationProgress(value)
+    },
+    animationAmplitude(this: TroikaTextType): void {
+      this.updateAnimation()
+      this.requestEmit()
+    },
+    frustumCulled(this: TroikaTextType, frustumCulled: boolean): void {
+      this.inst.frustumCulled = this.backgroundFill.frustumCulled = this.backgroundBorder.frustumCulled = frustumCulled
+      if (this.runMeshes) this.runMeshes.forEach((mesh) => { mesh.frustumCulled = frustumCulled })
+    },
+    fontSdfGlyphSize(this: TroikaTextType, fontSdfGlyphSize: number | null): void {
+      this.inst.sdfGlyphSize = fontSdfGlyphSize
+      this.requestUpdate(textProps.sdfGlyphSize.update)
+    },
+
+    batched: {
+      immediate: true,
+      handler(this: TroikaTextType, batched: boolean): void {
+        // The instance stays in the scene for its transform and raycasting, but isn't drawn.
+        if (batched) this.inst.layers.disable(0)
+        else this.inst.layers.enable(0)
+        if (this.troikaTextBatch) this.troikaTextBatch.invalidate()
+      }
+    },
+
+    pointerTarget: {
+      immediate: true,
+      handler(this: TroikaTextType, target: HTMLCanvasElement | null, oldTarget: HTMLCanvasElement | null): void {
+        domPointerEventNames.forEach((name) => {
+          if (oldTarget) oldTarget.removeEventListener(name, this.handlePointerEvent as EventListener)
+          if (target) target.addEventListener(name, this.handlePointerEvent as EventListener)
+        })
+      }
+    },
+
+    inst: {
+      immediate: true,
+      handler(this: TroikaTextType, inst: Text): void {
+        directTextProps.forEach((name) => applyTextProp(inst, name, this[name]))
+        inst.text = this.runLines ? '' : this.displayText
+        inst.curveRadius = this.resolvedCurveRadius
+        inst.font = this.fontSrc
+        inst.fontSize = this.resolvedFontSize
+        inst.colorRanges = this.runLines ? null : this.textColorRanges
+        inst.sdfGlyphSize = this.fontSdfGlyphSize
+        inst.frustumCulled = this.backgroundFill.frustumCulled = this.backgroundBorder.frustumCulled = this.frustumCulled
+        this.backgroundFill.geometry = this.backgroundGeometry
+        this.backgroundBorder.geometry = this.borderGeometry
+        this.updateBackground()
+        this.requestSync()
+      }
+    }
+  },
+
+  /**
+   * The default slot is scoped, receiving `textRenderInfo`, `bounds` and the resolved `fontSize` so
+   * that slotted objects can be sized and positioned from the text extents, as well as whether the
+   * text is `truncated` and the `fullText`, e.g. for a tooltip.
+   */
+  render(this: TroikaTextType, h: CreateElement): VNode {
+    const slot = this.$scopedSlots.default
+    if (!slot) return h()
+    return h('div', { style: { display: 'none' } }, slot({
+      textRenderInfo: this.textRenderInfo,
+      bounds: this.bounds,
+      fontSize: this.resolvedFontSize,
+      truncated: this.truncated,
+      fullText: this.plainText
+    }))
+  },
+
+  created(this: TroikaTextType): void {
+    const fontNamespace = this.fontNamespace = getFontNamespace(this.vglNamespace.geometries)
+    this.fontNames.forEach((name) => fontNamespace.listen(name, this.updateNamedFonts))
+    this.updateNamedFonts()
+    if (this.pathName !== null) {
+      const curves = this.vglNamespace.curves as VglNamespaceMap<Curve<Vector2 | Vector3>>
+      curves.listen(this.pathName, this.setNamedPath)
+      this.namedPath = curves.get(this.pathName)
+    }
+    this.updatePath()
+    this.animationValue = this.animationProgress == null ? 1 : Math.min(1, Math.max(0, parseNumber(this.animationProgress)))
+    this.animationPending = true
+    if (this.troikaTextBatch) this.troikaTextBatch.addMember(this)
+  },
+
+  mounted(this: TroikaTextType): void {
+    if (this.troikaTextStack) this.troikaTextStack.addItem(this)
+    this.updateMirror()
+  },
+
+  beforeDestroy(this: TroikaTextType): void {
+    if (this.troikaTextBatch) this.troikaTextBatch.removeMember(this)
+    if (this.troikaTextStack) this.troikaTextStack.removeItem(this)
+    const { fontNamespace } = this
+    if (fontNamespace) {
+      this.fontNames.forEach((name) => fontNamespace.unlisten(name, this.updateNamedFonts))
+      this.fontNamespace = undefined
+    }
+    if (this.pathName !== null) (this.vglNamespace.curves as VglNamespaceMap<Curve<Vector2 | Vector3>>).unlisten(this.pathName, this.setNamedPath)
+    if (this.animationFrameRequest !== undefined) cancelAnimationFrame(this.animationFrameRequest)
+    this.animationStartTime = this.animationFrameRequest = undefined
+    const target = this.pointerTarget
+    if (target) {
+      domPointerEventNames.forEach((name) => {
+        target.removeEventListener(name, this.handlePointerEvent as EventListener)
+      })
+    }
+    const { mirror } = this
+    if (mirror) {
+      mirrorEventNames.forEach((name) => mirror.removeEventListener(name, this.handleMirrorEvent))
+      mirror.remove()
+      this.mirror = undefined
+    }
+  },
+
+  destroyed(this: TroikaTextType): void {
+    // Drop any pending flush, so a disposed instance doesn't get synced again.
+    this.needsSync = this.needsEmit = false
+    if (this.inst !== undefined) {
+      this.clearRuns()
+      this.inst.dispose()
+    }
+    if (this.pathMaterial) this.pathMaterial.dispose()
+    if (this.animationMaterial) this.animationMaterial.dispose()
+    const backgroundMeshes = [this.backgroundFill, this.backgroundBorder]
+    backgroundMeshes.forEach((mesh) => {
+      mesh.geometry.dispose()
+      ;(mesh.material as MeshBasicMaterial).dispose()
+    })
+  }
+}) as VueConstructor<TroikaTextType>
+
+export default TroikaText
@@ -1,5 +1,5 @@
 declare module 'troika-three-text' {
-  import { Color, Mesh, Vector2, Vector3, DataTexture } from 'three';
+  import { Color, Mesh, Vector2, Vector3, DataTexture, InstancedBufferGeometry, Material, ShaderMaterial } from 'three';
 
   export type colorInitializer = string | number | Color;
 
@@ -39,8 +39,8 @@ declare module 'troika-three-text' {
      /** List holding each glyph's [r, g, b] color, if `colorRanges` was supplied. */
      glyphColors: Uint8Array
      /**
-      * A list of caret positions for all glyphs; this is the bottom [x,y] of the
-      * cursor position before each char, plus one after the last char.
+      * A list of caret positions for all characters in the string; each is three elements:
+      * the starting X, the ending X, and the bottom Y for the caret.
       */
      caretPositions: Float32Array
      /** An appropriate height for all selection carets. */
@@ -76,6 +76,88 @@ declare module 'troika-three-text' {
      timings: { total: number, fontLoad: number, layout: number, sdf: { [index: string]: number }, sdfTotal: number }
   }
 
+  /**
+   * A caret position, as returned by `getCaretAtPoint`.
+   */
+  export type TextCaret = {
+    /** The x position of the caret. */
+    x: number
+    /** The y position of the caret's bottom. */
+    y: number
+    /** The height of the caret. */
+    height: number
+    /**
+     * The index in the original input string of this caret's target character; the caret will be
+     * for the position _before_ that character.
+     */
+    charIndex: number
+  }
+
+  /**
+   * Given a local x/y coordinate in the text block plane, find the nearest caret position.
+   */
+  export function getCaretAtPoint(textRenderInfo: TroikaTextRenderInfo, x: number, y: number): TextCaret | null
+
+  /**
+   * Given start and end character indexes, return a list of rectangles covering all the
+   * characters within that selection.
+   * @param start - index of the first char in the selection
+   * @param end - index of the first char after the selection
+   */
+  export function getSelectionRects(
+    textRenderInfo: TroikaTextRenderInfo | null,
+    start: number,
+    end: number
+  ): Array<{ left: number, top: number, right: number, bottom: number }> | null
+
+  /**
+   * Preload a given font and optionally pre-generate glyph SDFs for specified characters.
+   * @param options.font - URL of the font file to preload. If not given, the default font will
+   *        be loaded.
+   * @param options.characters - One or more character strings for which to pre-generate glyph
+   *        SDFs. Note that this will honor ligature substitution, so you may need to specify
+   *        ligature sequences in addition to their individual characters to get all possible
+   *        glyphs, e.g. `["t", "h", "th"]` to get the "t" and "h" glyphs plus the "th" ligature.
+   * @param options.sdfGlyphSize - The size at which to prerender the SDF textures for the
+   *        specified `characters`.
+   * @param callback - A function that will be called when the preloading is complete.
+   */
+  export function preloadFont(
+    options: { font?: string | null, characters?: string | string[], sdfGlyphSize?: number | null },
+    callback: () => void
+  ): void
+
+  /**
+   * The instanced geometry of the glyph quads of a text, holding the per-glyph attributes read by
+   * the text material.
+   */
+  export class GlyphsGeometry extends InstancedBufferGeometry {
+    constructor();
+
+    /** The number of segments of each side of the glyph quads. */
+    detail: number;
+
+    curveRadius: number;
+
+    /**
+     * Updates the glyph instances from the layout of a text, and the bounding volumes from its
+     * `blockBounds`.
+     */
+    updateGlyphs(
+      glyphBounds: Float32Array,
+      glyphAtlasIndices: Float32Array,
+      blockBounds: number[],
+      chunkedBounds: Array<{start: number, end: number, rect:number[]}>,
+      glyphColors?: Uint8Array | null
+    ): void;
+  }
+
+  /**
+   * Derives the material drawing the glyphs of a text from a base material, with the uniforms set
+   * by a Text mesh before each render.
+   */
+  export function createTextDerivedMaterial(baseMaterial: Material): ShaderMaterial
+
   /**
    * A ThreeJS Mesh that renders a string of text on a plane in 3D space using signed distance
    * fields (SDF).
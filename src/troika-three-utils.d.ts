@@ -0,0 +1,61 @@
+declare module 'troika-three-utils' {
+  import { Material, ShaderMaterial } from 'three'
+
+  /** Options of `createDerivedMaterial`. */
+  export type DerivedMaterialOptions = {
+    /**
+     * Prototype-chains the derived material to the base material instead of copying it, so that
+     * it picks up the changes of the base material.
+     */
+    chained?: boolean
+    /** Custom defines for the modified shaders. */
+    defines?: { [name: string]: string }
+    /** Custom uniforms for the modified shaders, merged with the ones of the base material. */
+    uniforms?: { [name: string]: { value: unknown } }
+    /**
+     * The name of a uniform injected into both shaders, updated on each render with a number of
+     * elapsed milliseconds.
+     */
+    timeUniform?: string
+    /** GLSL code injected into the top-level definitions of the vertex shader. */
+    vertexDefs?: string
+    /** GLSL code injected at the top of the `main` function of the vertex shader. */
+    vertexMainIntro?: string
+    /** GLSL code injected at the end of the `main` function of the vertex shader. */
+    vertexMainOutro?: string
+    /**
+     * GLSL code manipulating the `position`, `normal` and `uv` vertex attributes, wrapped in a
+     * function exposing them by their normal names as read/write values.
+     */
+    vertexTransform?: string
+    /** GLSL code injected into the top-level definitions of the fragment shader. */
+    fragmentDefs?: string
+    /** GLSL code injected at the top of the `main` function of the fragment shader. */
+    fragmentMainIntro?: string
+    /** GLSL code injected at the end of the `main` function of the fragment shader. */
+    fragmentMainOutro?: string
+    /**
+     * GLSL code manipulating the `gl_FragColor` output, injected before the postprocessing chunks
+     * of three.js.
+     */
+    fragmentColorTransform?: string
+    /** A function rewriting the full shader code, run before the other transforms. */
+    customRewriter?: (shaders: { vertexShader: string, fragmentShader: string }) => { vertexShader: string, fragmentShader: string }
+  }
+
+  export type DerivedMaterial = ShaderMaterial & {
+    readonly isDerivedMaterial: true
+    /** The material this one derives from. */
+    readonly baseMaterial: Material
+    /** A variant of the material for casting shadows from directional and spot lights. */
+    getDepthMaterial(): DerivedMaterial
+    /** A variant of the material for casting shadows from point lights. */
+    getDistanceMaterial(): DerivedMaterial
+  }
+
+  /**
+   * Creates a material deriving from a base material, with its shaders modified by the options.
+   * Derivations of the same base material with the same options share their GL program.
+   */
+  export function createDerivedMaterial(baseMaterial: Material, options: DerivedMaterialOptions): DerivedMaterial
+}
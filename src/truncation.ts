@@ -0,0 +1,74 @@
+import { TroikaTextRenderInfo } from 'troika-three-text'
+import { MarkupRun } from './markup'
+
+/** The glyph appended to text truncated with the 'ellipsis' overflow. */
+export const ellipsis = '…'
+
+/**
+ * Finds the index of the first character of a line, given by the start and end of its caret
+ * indexes, which extends past `maxWidth` from the start edge of the line. Whitespace is ignored,
+ * since troika lets it hang past the end of wrapped lines. Returns -1 if the line fits.
+ */
+function findWidthOverflow(text: string, caretPositions: Float32Array, start: number, end: number, maxWidth: number): number {
+  if (!Number.isFinite(maxWidth)) return -1
+  let min = Infinity
+  let max = -Infinity
+  for (let i = start; i < end; i++) {
+    min = Math.min(min, caretPositions[i * 3], caretPositions[i * 3 + 1])
+    max = Math.max(max, caretPositions[i * 3], caretPositions[i * 3 + 1])
+  }
+  // Right-to-left lines start at their right edge.
+  const rtl = caretPositions[(end - 1) * 3] < caretPositions[start * 3]
+  for (let i = start; i < end; i++) {
+    if (/\s/.test(text[i])) continue
+    const left = Math.min(caretPositions[i * 3], caretPositions[i * 3 + 1])
+    const right = Math.max(caretPositions[i * 3], caretPositions[i * 3 + 1])
+    if ((rtl ? max - left : right - min) > maxWidth + 1e-6) return i
+  }
+  return -1
+}
+
+/**
+ * Finds the index at which a laid out text overflows: the first character past its first
+ * `maxLines` lines, or the first character of those lines extending past `maxWidth`. Returns -1 if
+ * the whole text fits. Lines are told apart by the bottoms of their carets, as in hit testing.
+ */
+export function findOverflowIndex(textRenderInfo: TroikaTextRenderInfo, text: string, maxLines: number, maxWidth: number): number {
+  const { caretPositions } = textRenderInfo
+  const count = Math.min(text.length, caretPositions.length / 3)
+  let line = -1
+  let lineStart = 0
+  let lineBottom = NaN
+  for (let i = 0; i <= count; i++) {
+    const bottom = i < count ? caretPositions[i * 3 + 2] : NaN
+    if (i < count && bottom === lineBottom) continue
+    if (line >= 0) {
+      const index = findWidthOverflow(text, caretPositions, lineStart, i, maxWidth)
+      if (index >= 0) return index
+    }
+    if (i === count || ++line >= maxLines) return i === count ? -1 : i
+    lineStart = i
+    lineBottom = bottom
+  }
+  return -1
+}
+
+/** Cuts a text at an index, dropping the whitespace before the cut, and appends a suffix. */
+export function truncateText(text: string, index: number, suffix: string): string {
+  return text.slice(0, index).replace(/\s+$/, '') + suffix
+}
+
+/**
+ * Cuts styled runs the same way as `truncateText`, appending the suffix to the last run kept so
+ * that it takes its style.
+ */
+export function truncateRuns(runs: MarkupRun[], index: number, suffix: string): MarkupRun[] {
+  const length = truncateText(runs.map(({ text }) => text).join(''), index, '').length
+  const truncated = runs.filter(({ start }) => start < length).map((run) => ({
+    ...run,
+    text: run.text.slice(0, length - run.start)
+  }))
+  if (!truncated.length) return [{ start: 0, text: suffix, style: runs.length ? runs[0].style : {} }]
+  truncated[truncated.length - 1].text += suffix
+  return truncated
+}
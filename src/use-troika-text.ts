@@ -0,0 +1,109 @@
+import { Text, TroikaTextRenderInfo } from 'troika-three-text'
+import { Ref, markRaw, nextTick, onBeforeUnmount, ref, shallowRef, watch } from 'vue'
+import { TextPropName, applyTextProp, textPropNames, textProps } from './text-props'
+
+/**
+ * The values of the shared props, e.g. the props of a component declaring `textPropOptions`, or a
+ * reactive object. The props left out take the defaults of the components.
+ */
+export type TroikaTextPropValues = { readonly [name in TextPropName]?: unknown }
+
+export interface UseTroikaTextOptions {
+  /**
+   * Called when the instance has to be rendered again, e.g. to draw a frame of an on-demand render
+   * loop. Even if many props changed in a tick, it's called just once.
+   */
+  onRender?(): void
+  onSyncStart?(): void
+  onSyncComplete?(textRenderInfo: TroikaTextRenderInfo): void
+}
+
+export interface UseTroikaText {
+  /** The Text instance, to be added to a scene. It's disposed of when the component unmounts. */
+  inst: Text
+  /** The layout of the text, updated when a sync completes. Null until the first one does. */
+  textRenderInfo: Ref<TroikaTextRenderInfo | null>
+  /** Whether the text is being laid out. */
+  syncing: Ref<boolean>
+  /**
+   * Marks the text layout as dirty. The instance will be synced at next tick. Even if this method
+   * was called multiple times, it will be synced just once.
+   */
+  requestSync(): void
+  /** Requests a call to `onRender` at next tick, without changing the text layout. */
+  requestRender(): void
+}
+
+/**
+ * Creates a Text instance kept up to date with the shared props, for the composition API of
+ * Vue 2.7 and Vue 3. The changes of a tick are coalesced into a single sync or render, as classified
+ * by `textProps`. Must be called in `setup`.
+ */
+export function useTroikaText(props: TroikaTextPropValues, options: UseTroikaTextOptions = {}): UseTroikaText {
+  // Three objects are kept out of the reactivity, which would only slow their rendering down.
+  const inst = markRaw(new Text())
+  const textRenderInfo = shallowRef<TroikaTextRenderInfo | null>(null)
+  const syncing = ref(false)
+  let needsSync = false
+  let needsRender = false
+  let flushReserved = false
+  let disposed = false
+
+  function flush(): void {
+    const sync = needsSync && !disposed
+    const render = needsRender && !disposed
+    flushReserved = needsSync = needsRender = false
+    // A sync ends with a render on `synccomplete`, but the render-only changes shouldn't wait for it.
+    if (sync) inst.sync()
+    if (render && options.onRender) options.onRender()
+  }
+
+  function reserveFlush(): void {
+    if (!flushReserved) {
+      flushReserved = true
+      nextTick(flush)
+    }
+  }
+
+  function requestSync(): void {
+    needsSync = true
+    reserveFlush()
+  }
+
+  function requestRender(): void {
+    needsRender = true
+    reserveFlush()
+  }
+
+  function valueOf(name: TextPropName): unknown {
+    const value = props[name]
+    return value === undefined ? textProps[name].options.default : value
+  }
+
+  inst.addEventListener('syncstart', () => {
+    syncing.value = true
+    if (options.onSyncStart) options.onSyncStart()
+  })
+  inst.addEventListener('synccomplete', () => {
+    syncing.value = false
+    textRenderInfo.value = inst.textRenderInfo as TroikaTextRenderInfo
+    if (options.onRender) options.onRender()
+    if (options.onSyncComplete) options.onSyncComplete(textRenderInfo.value)
+  })
+
+  textPropNames.forEach((name) => {
+    applyTextProp(inst, name, valueOf(name))
+    watch(() => valueOf(name), (value) => {
+      if (applyTextProp(inst, name, value) === 'sync') requestSync()
+      else requestRender()
+    })
+  })
+  requestSync()
+
+  onBeforeUnmount(() => {
+    disposed = true
+    inst.dispose()
+  })
+
+  return { inst, textRenderInfo, syncing, requestSync, requestRender }
+}
@@ -0,0 +1,125 @@
+import { Color } from 'three'
+import { isNumeric, splitColorRanges } from './parsers'
+
+export function nullableValidator<T>(validator: (a: T) => boolean): (a: T | null) => boolean {
+  return (value) => value == null ? true : validator(value)
+}
+
+export function validateNumber(value: string | number): boolean {
+  return typeof value === 'number' || isNumeric(value)
+}
+
+export function validateFloatArray(array: string | (string | number)[]): boolean {
+  return (Array.isArray(array)
+    ? array
+    : array.split(',')).every(value => typeof value === 'number' || isNumeric(value))
+}
+
+/** Validates a `[minX, minY, maxX, maxY]` rect, as an array or a comma-separated string. */
+export function validateRect(rect: string | (string | number)[]): boolean {
+  const length = Array.isArray(rect) ? rect.length : rect.split(',').length
+  return length === 4 && validateFloatArray(rect)
+}
+
+export function validatePadding(padding: number | string | (string | number)[]): boolean {
+  if (typeof padding === 'number') return true
+  const length = Array.isArray(padding) ? padding.length : padding.split(',').length
+  return [1, 2, 4].includes(length) && validateFloatArray(padding)
+}
+
+export function validateColor(color: string | number | Color | (string | number)[]): boolean {
+  return (<Color>color).isColor ||
+    typeof color === 'number' ||
+    typeof color === 'string'
+}
+
+export function validateFontChain(chain: unknown[]): boolean {
+  return chain.every((entry) => typeof entry === 'string' ||
+    (!!entry && typeof (<{ font?: unknown }>entry).font === 'string'))
+}
+
+export function validateColorRanges(ranges: string | { [index: string]: unknown }): boolean {
+  if (typeof ranges !== 'string') {
+    return Object.entries(ranges).every(([index, color]) => /^\d+$/.test(index) &&
+      validateColor(color as string | number | Color))
+  }
+  return splitColorRanges(ranges).every(([index, color]) => /^\d+$/.test(index) && color !== '')
+}
+
+/** Whether a string is a percentage, e.g. `'25%'`. */
+export function isPercentage(value: string): boolean {
+  return /^[-+]?(\d+\.?\d*|\.\d+)%$/.test(value)
+}
+
+export function validateKeyword(keywords: string[]): (value: string) => boolean {
+  return (value) => keywords.includes(value)
+}
+
+/** Validates a length that can be a number, a numeric string or a percentage, e.g. `outlineWidth`. */
+export function validateLength(value: string | number): boolean {
+  return typeof value === 'number' || isNumeric(value) || isPercentage(value)
+}
+
+/** Validates a length that can also be one of some keywords, e.g. `anchorX`. */
+export function validateLengthOrKeyword(keywords: string[]): (value: string | number) => boolean {
+  return (value) => validateLength(value) || keywords.includes(value as string)
+}
+
+/** Validates an orientation of two distinct signed axes, e.g. `'+x-z'`. */
+export function validateOrientation(orientation: string): boolean {
+  return /^[-+][xyz][-+][xyz]$/.test(orientation) && orientation[1] !== orientation[3]
+}
+
+export function validatePowerOfTwo(value: string | number): boolean {
+  const number = typeof value === 'number' ? value : isNumeric(value) ? parseFloat(value) : NaN
+  return Number.isInteger(number) && number > 0 && (number & (number - 1)) === 0
+}
+
+/**
+ * Wraps a validator to warn about the invalid values of a prop, naming the prop and the accepted
+ * values. The warnings are only emitted in development builds, and compiled away in production ones.
+ */
+export function describedValidator<T>(prop: string, accepted: string, validator: (value: T) => boolean): (value: T) => boolean {
+  if (process.env.NODE_ENV === 'production') return validator
+  return (value) => {
+    const valid = validator(value)
+    if (!valid) console.warn(`[vue-gl-troika-text] Invalid value ${JSON.stringify(value)} for prop "${prop}". Expected ${accepted}.`)
+    return valid
+  }
+}
+
+/** Lists keywords for the warnings of the prop validators, e.g. `'left', 'center' or 'right'`. */
+function listKeywords(keywords: string[]): string {
+  const quoted = keywords.map((keyword) => `'${keyword}'`)
+  return quoted.length > 1 ? `${quoted.slice(0, -1).join(', ')} or ${quoted[quoted.length - 1]}` : quoted.join('')
+}
+
+/** Validates a prop taking one of some keywords, warning with the list of them. */
+export function keywordValidator(prop: string, keywords: string[]): (value: string) => boolean {
+  return describedValidator(prop, `one of ${listKeywords(keywords)}`, validateKeyword(keywords))
+}
+
+/** Validates a prop taking a length or one of some keywords, warning with the list of them. */
+export function anchorValidator(prop: string, keywords: string[]): (value: string | number) => boolean {
+  return describedValidator(prop, `a number, a percentage such as '25%' or one of ${listKeywords(keywords)}`, validateLengthOrKeyword(keywords))
+}
+
+/** Validates a prop taking a number or a numeric string. */
+export function numberValidator(prop: string): (value: string | number) => boolean {
+  return describedValidator(prop, 'a number', validateNumber)
+}
+
+/** Validates a prop taking a Color, a number or a CSS color string. */
+export function colorValidator(prop: string): (value: string | number | Color) => boolean {
+  return describedValidator(prop, 'a Color, a number or a CSS color string', validateColor)
+}
+
+/** Validates a prop taking 1, 2 or 4 lengths in the order of CSS, e.g. `padding`. */
+export function paddingValidator(prop: string): (value: number | string | (string | number)[]) => boolean {
+  return describedValidator(prop, '1, 2 or 4 numbers, as an array or a comma-separated string', validatePadding)
+}
+
+/** Validates a prop taking a length in local units or in percentage of the font size. */
+export function lengthValidator(prop: string): (value: string | number) => boolean {
+  return describedValidator(prop, "a number or a percentage of the font size such as '12%'", validateLength)
+}
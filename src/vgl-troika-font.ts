@@ -0,0 +1,166 @@
+import { preloadFont } from 'troika-three-text'
+import Vue, { CreateElement, VNode, VueConstructor } from 'vue'
+import { FontNamespace, TroikaFont, getFontNamespace } from './font-namespace'
+import { nullableParser, parseNumber } from './parsers'
+import { nullableValidator, numberValidator } from './validators'
+import { VglNamespaceType } from './vue-gl-types'
+
+interface VglTroikaFontProps {
+  /** Name of the font, used as the `font` of TroikaText components. */
+  name: string
+
+  /** The URL of the font file. */
+  src: string
+
+  /**
+   * @default null
+   * The characters whose glyph SDFs are generated while preloading, as a string or an array of
+   * strings. Ligatures are only generated if their sequence is given, e.g. `['t', 'h', 'th']`.
+   */
+  characters: string | string[] | null
+
+  /**
+   * @default null
+   * The size of the glyph SDFs generated while preloading. Texts using the font get this size
+   * unless they set their own `sdfGlyphSize`.
+   */
+  sdfGlyphSize: string | number | null
+
+  /**
+   * @default 10000
+   * The milliseconds to wait for the font before giving up on it, so that the texts using it are
+   * laid out with the fallback font in the meantime. The font is still loaded if it arrives later.
+   */
+  timeout: string | number
+}
+
+interface VglTroikaFontComputed {
+  /** The registered font, replaced when the props change. */
+  get inst(): TroikaFont
+}
+
+interface VglTroikaFontMethods {
+  /** Registers the font under the `name`, emitting `load` or `error` once it is ready. */
+  register(font: TroikaFont): void
+}
+
+/** Non-reactive state of the font. */
+interface VglTroikaFontState {
+  fonts?: FontNamespace
+}
+
+export type VglTroikaFontType =
+  VglTroikaFontComputed &
+  VglTroikaFontMethods &
+  VglTroikaFontState &
+  VglTroikaFontProps &
+  { vglNamespace: VglNamespaceType } &
+  Vue
+
+/** Starts loading a font file and generating the glyph SDFs of some characters. */
+function createFont(src: string, characters: string | string[] | null, sdfGlyphSize: number | null, timeout: number): TroikaFont {
+  // troika falls back to its default font without reporting failures, so the file is fetched
+  // first. troika's own request for it comes after, and is served from the HTTP cache.
+  const loaded = fetch(src).then((response) => {
+    if (!response.ok) throw new Error(`Failed to load the font ${src}: ${response.status} ${response.statusText}`)
+    return new Promise<void>((resolve) => {
+      preloadFont({ font: src, characters: characters || '', sdfGlyphSize }, () => resolve())
+    })
+  })
+  const timedOut = new Promise<void>((resolve, reject) => {
+    setTimeout(() => reject(new Error(`Timed out loading the font ${src}`)), timeout)
+  })
+  const font: TroikaFont = {
+    src,
+    sdfGlyphSize,
+    status: 'loading',
+    error: null,
+    ready: Promise.race([loaded, timedOut]).then(() => {
+      font.status = 'loaded'
+    }, (error: Error) => {
+      font.status = 'error'
+      font.error = error
+    }),
+    loaded
+  }
+  // A font arriving after its timeout is loaded after all.
+  loaded.then(() => {
+    font.status = 'loaded'
+    font.error = null
+  }, () => undefined)
+  // Kept out of the reactivity system of the components it is passed to.
+  return Object.preventExtensions(font)
+}
+
+/**
+ * A font registered by name, so that TroikaText components can use the name as their `font`. The
+ * font is preloaded, and texts using it wait for it before laying out, instead of showing the
+ * fallback font first. It has to be placed inside a VglNamespace, before the texts using it.
+ *
+ * Emits `load` when the font is ready, and `error` with the error if its file can't be fetched or
+ * it times out. A font timing out emits `load` too if it arrives later.
+ */
+const VglTroikaFont = Vue.extend<unknown, VglTroikaFontMethods, VglTroikaFontComputed, VglTroikaFontProps>({
+  inject: ['vglNamespace'],
+
+  props: {
+    name: { type: String, required: true },
+    src: { type: String, required: true },
+    characters: { type: [String, Array], default: null },
+    sdfGlyphSize: { type: [String, Number], default: null, validator: nullableValidator(numberValidator('sdfGlyphSize')) },
+    timeout: { type: [String, Number], default: 10000, validator: numberValidator('timeout') }
+  },
+
+  computed: {
+    inst(this: VglTroikaFontType): TroikaFont {
+      return createFont(this.src, this.characters, nullableParser(parseNumber)(this.sdfGlyphSize), parseNumber(this.timeout))
+    }
+  },
+
+  watch: {
+    inst(this: VglTroikaFontType, inst: TroikaFont): void {
+      this.register(inst)
+    },
+
+    name(this: VglTroikaFontType, name: string, oldName: string): void {
+      if (!this.fonts) return
+      this.fonts.delete(oldName, this.inst)
+      this.fonts.set(name, this.inst)
+    }
+  },
+
+  created(this: VglTroikaFontType): void {
+    this.fonts = getFontNamespace(this.vglNamespace.geometries)
+    this.register(this.inst)
+  },
+
+  beforeDestroy(this: VglTroikaFontType): void {
+    if (!this.fonts) return
+    this.fonts.delete(this.name, this.inst)
+    this.fonts = undefined
+  },
+
+  methods: {
+    register(this: VglTroikaFontType, font: TroikaFont): void {
+      if (!this.fonts) return
+      this.fonts.set(this.name, font)
+      font.ready.then(() => {
+        if (this.inst !== font || !this.fonts) return
+        if (font.status !== 'error') {
+          this.$emit('load')
+          return
+        }
+        this.$emit('error', font.error)
+        font.loaded.then(() => {
+          if (this.inst === font && this.fonts) this.$emit('load')
+        }, () => undefined)
+      })
+    }
+  },
+
+  render(h: CreateElement): VNode {
+    return h()
+  }
+}) as VueConstructor<VglTroikaFontType>
+
+export default VglTroikaFont
@@ -0,0 +1,16 @@
+/**
+ * The Vue 3 build, exported as `vue-gl-troika-text/vue3`. It covers the subset of TroikaText that
+ * doesn't need VueGL: see `troika-text-vue3` for the props it takes. The other components are
+ * only part of the Vue 2 build.
+ */
+import TroikaText from './troika-text-vue3'
+
+export default TroikaText
+
+export { troikaTextParentKey } from './troika-text-vue3'
+export type { TroikaTextParent } from './troika-text-vue3'
+
+export { useTroikaText } from './use-troika-text'
+export { textPropOptions, textProps } from './text-props'
+export type { TroikaTextPropValues, UseTroikaText, UseTroikaTextOptions } from './use-troika-text'
+export type { TextProp, TextPropName, TextPropUpdate } from './text-props'
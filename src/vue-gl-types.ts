@@ -0,0 +1,92 @@
+import { Camera, Euler, Object3D, Quaternion, Vector3, WebGLRenderer } from 'three'
+import Vue from 'vue'
+
+/**
+ * A map of named instances provided by VglNamespace. Lookups fall back to the namespaces of the
+ * ancestor VglNamespace components.
+ */
+export interface VglNamespaceMap<T = unknown> {
+  readonly parent?: VglNamespaceMap<T>
+  get(key: string): T | undefined
+  set(key: string, inst: T): void
+  /** Deletes the instance of the key, only if it is `inst`. */
+  delete(key: string, inst: T): void
+  listen(key: string, fn: (inst: T | undefined) => void): void
+  unlisten(key: string, fn: (inst: T | undefined) => void): void
+  emit(key: string, inst: T | undefined): void
+  fork(): VglNamespaceMap<T>
+  destroy(): void
+}
+
+/** The `vglNamespace` object injected by VueGL components. */
+export interface VglNamespaceType {
+  readonly geometries: VglNamespaceMap
+  readonly materials: VglNamespaceMap
+  readonly textures: VglNamespaceMap
+  readonly object3ds: VglNamespaceMap
+  readonly curves: VglNamespaceMap
+  readonly cameras: VglNamespaceMap
+  readonly scenes: VglNamespaceMap
+}
+
+/** The `vglObject3d` object provided by VueGL objects to their children. */
+export interface VglObject3dTree {
+  /** The instance of the providing object, to which the children add their own. */
+  inst(): Object3D
+  listen: (callback: () => void) => void
+  unlisten: (callback: () => void) => void
+  emit(): void
+}
+
+export interface VglObject3dComputed {
+  readonly vglNamespace: VglNamespaceType
+  readonly inst: Object3D
+  readonly vglObject3d: VglObject3dTree
+}
+
+export interface VglObject3dProps {
+  /** The object's local position as a 3D vector. */
+  position: Vector3
+  /** The object's local rotation as a euler angle. */
+  rotation: Euler
+  /**
+   * The object's local rotation as a quaternion (specified in x, y, z, w order).
+   * Do not use in conjunction with the rotation prop, since they both control the same property
+   * of the underlying THREE.Object3D object.
+   */
+  rotationQuaternion: Quaternion
+  /** The object's local scale as a 3D vector. */
+  scale: Vector3
+  /** Whether the object gets rendered into shadow map. */
+  castShadow: boolean
+  /** Whether the material receives shadows. */
+  receiveShadow: boolean
+  /** Optional name of the object. */
+  name: string
+  /** Whether the object is visible. */
+  hidden: boolean
+}
+
+export type VglObject3dType = VglObject3dComputed & VglObject3dProps & Vue
+
+export interface VglMeshProps {
+  /** Name of the geometry, defining the object's structure. */
+  geometry: string | string[]
+
+  /**
+   * A Material name or an array of Material name, defining the object's appearance.
+   *
+   * A single material will apply the material to all object's faces meanwhile
+   * an array of material will apply each material to the matching index object's face
+   */
+  material: string | string[]
+}
+
+export type VglMeshType = VglMeshProps & VglObject3dType
+
+export interface VglRendererType extends Vue {
+  /** The THREE.WebGLRenderer instance. */
+  readonly inst: WebGLRenderer
+  /** The camera currently used for rendering the scene. */
+  cameraRef?: Camera
+}
@@ -0,0 +1,104 @@
+import { Material, Mesh, MeshBasicMaterial } from 'three'
+import { TroikaTextRenderInfo } from 'troika-three-text'
+
+type TextMaterial = Material & { isTroikaTextMaterial: true, baseMaterial: Material }
+
+/** Derives a text material from a base material, standing for the shader material of troika. */
+function deriveMaterial(baseMaterial: Material): TextMaterial {
+  return Object.assign(baseMaterial.clone(), { isTroikaTextMaterial: true as const, baseMaterial })
+}
+
+/**
+ * Lays out the text of a mesh as a single line of square glyphs of the `fontSize`, starting at
+ * the origin. The layout is frozen, as troika freezes its own.
+ */
+function layoutText(text: Text): TroikaTextRenderInfo {
+  const { fontSize } = text
+  const width = text.text.length * fontSize
+  const caretPositions = new Float32Array(text.text.length * 3)
+  for (let index = 0; index < text.text.length; index++) caretPositions.set([index * fontSize, (index + 1) * fontSize, -fontSize], index * 3)
+  return Object.freeze({
+    blockBounds: [0, -fontSize, width, 0],
+    visibleBounds: [0, -fontSize, width, 0],
+    glyphBounds: new Float32Array(0),
+    caretPositions,
+    caretHeight: fontSize,
+    lineHeight: fontSize,
+    topBaseline: -fontSize
+  }) as unknown as TroikaTextRenderInfo
+}
+
+/**
+ * A stand-in for the troika Text mesh, which renders nothing and needs neither WebGL nor fonts.
+ * It keeps the properties assigned by the components, derives its material like troika does, and
+ * completes each `sync` right away with the layout of `layoutText`.
+ */
+export class Text extends Mesh {
+  text = ''
+  anchorX: string | number = 0
+  anchorY: string | number = 0
+  curveRadius = 0
+  direction = 'auto'
+  font: string | null = null
+  fontSize = 0.1
+  letterSpacing = 0
+  lineHeight: string | number = 'normal'
+  maxWidth = Infinity
+  overflowWrap = 'normal'
+  textAlign = 'left'
+  textIndent = 0
+  whiteSpace = 'normal'
+  color: unknown = null
+  colorRanges: unknown = null
+  outlineWidth: string | number = 0
+  outlineColor: unknown = 0
+  outlineOpacity = 1
+  outlineBlur: string | number = 0
+  outlineOffsetX: string | number = 0
+  outlineOffsetY: string | number = 0
+  strokeWidth: string | number = 0
+  strokeColor: unknown = 0x808080
+  strokeOpacity = 1
+  fillOpacity = 1
+  depthOffset = 0
+  clipRect: number[] | null = null
+  orientation = '+x+y'
+  glyphGeometryDetail = 1
+  sdfGlyphSize: number | null = null
+  textRenderInfo: TroikaTextRenderInfo | null = null
+
+  constructor() {
+    super(undefined, new MeshBasicMaterial())
+    // Assigning a base material derives a new text material from it, as troika does.
+    let material = deriveMaterial(this.material as Material)
+    Object.defineProperty(this, 'material', {
+      get: () => material,
+      set: (value: Material) => {
+        material = (value as TextMaterial).isTroikaTextMaterial ? value as TextMaterial : deriveMaterial(value)
+      }
+    })
+  }
+
+  sync(callback?: () => void): void {
+    this.dispatchEvent({ type: 'syncstart' })
+    this.textRenderInfo = layoutText(this)
+    this.dispatchEvent({ type: 'synccomplete' })
+    if (callback) callback()
+  }
+
+  dispose(): void {
+    this.geometry.dispose()
+  }
+}
+
+export function getCaretAtPoint(): null {
+  return null
+}
+
+export function getSelectionRects(): [] {
+  return []
+}
+
+export function preloadFont(options: unknown, callback: () => void): void {
+  callback()
+}
@@ -0,0 +1,27 @@
+import type { Wrapper } from '@vue/test-utils'
+import Vue, { CreateElement, VNode } from 'vue'
+
+/** Waits for the promises and the timers due in `ms` to settle, such as the watchers and the flush of the texts. */
+export function flush(ms = 0): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+/**
+ * Mounts the components rendered by `render` in a VueGL scene named 'scene', and waits for their
+ * first flush. The rendered components see `data` reactively as the data of the root component.
+ */
+export async function mountInScene<Data extends Record<string, unknown>>(
+  render: (h: CreateElement, data: Data) => VNode[],
+  data?: Data
+): Promise<Wrapper<Vue>> {
+  // Imported on demand, since the Vue 3 specs share `flush` but can't load the test utils and VueGL of Vue 2.
+  const [{ mount }, { VglNamespace, VglScene }] = await Promise.all([import('@vue/test-utils'), import('vue-gl')])
+  const wrapper = mount({
+    data: () => data || {},
+    render(this: Vue, h: CreateElement): VNode {
+      return h(VglNamespace, [h(VglScene, { props: { name: 'scene' } }, render(h, this.$data as Data))])
+    }
+  })
+  await flush()
+  return wrapper
+}
@@ -0,0 +1,45 @@
+import { Wrapper } from '@vue/test-utils'
+import Vue from 'vue'
+import TroikaTextInput, { TroikaTextInputType } from '../src/troika-text-input'
+import { mountInScene } from './helpers'
+
+jest.mock('troika-three-text')
+
+describe('TroikaTextInput', () => {
+  let wrapper: Wrapper<Vue>
+
+  afterEach(() => {
+    wrapper.destroy()
+  })
+
+  it('labels its textarea for screen readers, without hiding it from them', async () => {
+    wrapper = await mountInScene((h) => [
+      h(TroikaTextInput, { props: { value: 'Hello', ariaLabel: 'Name', accessible: true }, ref: 'input' })
+    ])
+    const { textarea } = wrapper.vm.$refs.input as TroikaTextInputType
+    expect(textarea).toBeInstanceOf(HTMLTextAreaElement)
+    expect((textarea as HTMLTextAreaElement).getAttribute('aria-label')).toBe('Name')
+    expect((textarea as HTMLTextAreaElement).hasAttribute('aria-hidden')).toBe(false)
+    // The textarea stands in for the accessible mirror of the text.
+    expect(document.body.querySelectorAll('div[tabindex], div[dir]')).toHaveLength(0)
+  })
+
+  it('passes the same slot props as TroikaText', async () => {
+    const slot = jest.fn(() => [])
+    wrapper = await mountInScene((h) => [
+      h(TroikaTextInput, { props: { value: 'Hello', fontSize: 0.2 }, scopedSlots: { default: slot } })
+    ])
+    expect(slot).toHaveBeenLastCalledWith(expect.objectContaining({ fontSize: 0.2, truncated: false, fullText: 'Hello' }))
+    expect(slot).toHaveBeenLastCalledWith(expect.objectContaining({ textRenderInfo: expect.anything(), bounds: expect.any(Array) }))
+  })
+
+  it('takes its numeric props as strings too', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => undefined)
+    wrapper = await mountInScene((h) => [
+      h(TroikaTextInput, { props: { value: 'Hello', maxLength: '3', selectionOpacity: '0.5' }, ref: 'input' })
+    ])
+    expect(((wrapper.vm.$refs.input as TroikaTextInputType).textarea as HTMLTextAreaElement).maxLength).toBe(3)
+    expect(error).not.toHaveBeenCalled()
+    error.mockRestore()
+  })
+})
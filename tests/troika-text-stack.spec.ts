@@ -0,0 +1,40 @@
+import TroikaText, { TroikaTextType } from '../src/troika-text'
+import TroikaTextStack, { TroikaTextStackType } from '../src/troika-text-stack'
+import { mountInScene } from './helpers'
+
+jest.mock('troika-three-text')
+
+describe('TroikaTextStack', () => {
+  it('stacks the items by their bounds as scaled and turned by their scale and orientation', async () => {
+    const wrapper = await mountInScene((h) => [
+      h(TroikaTextStack, { props: { gap: '0.1' }, ref: 'stack' }, [
+        h(TroikaText, { props: { text: 'Hi' }, ref: 'plain' }),
+        h(TroikaText, { props: { text: 'Hi', scale: '2 2 2' }, ref: 'scaled' }),
+        h(TroikaText, { props: { text: 'Hi', orientation: '+x-z' }, ref: 'flat' })
+      ])
+    ])
+    const { stack, plain, scaled, flat } = wrapper.vm.$refs as Record<string, TroikaTextStackType & TroikaTextType>
+    expect(plain.inst.position.y).toBeCloseTo(0)
+    expect(scaled.inst.position.y).toBeCloseTo(-0.2)
+    // Laid on the xz plane, the text takes no height in the stack.
+    expect(flat.inst.position.y).toBeCloseTo(-0.5)
+    expect(stack.layout.width).toBeCloseTo(0.4)
+    expect(stack.layout.height).toBeCloseTo(0.5)
+    wrapper.destroy()
+  })
+
+  it('warns about invalid props, naming the accepted values', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined)
+    const error = jest.spyOn(console, 'error').mockImplementation(() => undefined)
+    const wrapper = await mountInScene((h) => [
+      h(TroikaTextStack, { props: { direction: 'vertical', justify: 'between', gap: '1em' } })
+    ])
+    const messages = warn.mock.calls.map(([message]) => message)
+    expect(messages).toContainEqual(expect.stringMatching(/"direction".*'column' or 'row'/))
+    expect(messages).toContainEqual(expect.stringMatching(/"justify".*'space-between'/))
+    expect(messages).toContainEqual(expect.stringMatching(/"gap".*a number/))
+    wrapper.destroy()
+    warn.mockRestore()
+    error.mockRestore()
+  })
+})
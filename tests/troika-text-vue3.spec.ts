@@ -0,0 +1,67 @@
+import { Object3D } from 'three'
+import { Component, createApp, h, provide, reactive, ref } from 'vue3'
+import TroikaText, { TroikaTextParent, troikaTextParentKey } from '../src/troika-text-vue3'
+import { UseTroikaText } from '../src/use-troika-text'
+import { flush } from './helpers'
+
+jest.mock('troika-three-text')
+
+describe('TroikaText of the Vue 3 build', () => {
+  it('adds the instance to the provided parent, applies the object props and emits sync-complete', async () => {
+    const parent: TroikaTextParent = { object3d: new Object3D(), render: jest.fn() }
+    const props = reactive<Record<string, unknown>>({ text: 'Hello', fontSize: 0.2, position: '1 2 3', name: 'label' })
+    const onSyncComplete = jest.fn()
+    const text = ref<UseTroikaText | null>(null)
+    const app = createApp({
+      name: 'TextParent',
+      setup() {
+        provide(troikaTextParentKey, parent)
+        return () => h(TroikaText as Component, { ...props, onSyncComplete, ref: text })
+      }
+    })
+    app.mount(document.createElement('div'))
+    await flush()
+    const { inst } = text.value as UseTroikaText
+    expect(inst.parent).toBe(parent.object3d)
+    expect(inst).toMatchObject({ text: 'Hello', fontSize: 0.2, name: 'label', visible: true })
+    expect(inst.position.toArray()).toEqual([1, 2, 3])
+    expect(onSyncComplete).toHaveBeenCalledWith(inst.textRenderInfo)
+    expect(parent.render).toHaveBeenCalled()
+    props.scale = [2, 2, 2]
+    props.rotation = '0 1 0 YXZ'
+    props.hidden = true
+    await flush()
+    expect(inst.scale.toArray()).toEqual([2, 2, 2])
+    expect(inst.rotation.toArray()).toEqual([0, 1, 0, 'YXZ'])
+    expect(inst.visible).toBe(false)
+    app.unmount()
+    expect(inst.parent).toBeNull()
+  })
+
+  it('applies the shared props in their string forms, syncing again when they change', async () => {
+    const props = reactive<Record<string, unknown>>({
+      text: 'Hello', fontSize: '0.2', anchorX: '50%', colorRanges: '0:red,2:blue', outlineWidth: '10%', clipRect: '0,0,1,1', textAlign: 'justify'
+    })
+    const onSyncStart = jest.fn()
+    const text = ref<UseTroikaText | null>(null)
+    const app = createApp({
+      name: 'TextRoot',
+      setup: () => () => h(TroikaText as Component, { ...props, onSyncStart, ref: text })
+    })
+    app.mount(document.createElement('div'))
+    await flush()
+    const { inst, syncing, textRenderInfo } = text.value as UseTroikaText
+    expect(inst).toMatchObject({
+      text: 'Hello', fontSize: 0.2, anchorX: '50%', colorRanges: { 0: 'red', 2: 'blue' }, outlineWidth: '10%', clipRect: [0, 0, 1, 1], textAlign: 'justify'
+    })
+    expect(onSyncStart).toHaveBeenCalledTimes(1)
+    expect(syncing).toBe(false)
+    expect(textRenderInfo).toBe(inst.textRenderInfo)
+    const sync = jest.spyOn(inst, 'sync')
+    props.textIndent = '0.1'
+    await flush()
+    expect(inst.textIndent).toBe(0.1)
+    expect(sync).toHaveBeenCalledTimes(1)
+    app.unmount()
+  })
+})
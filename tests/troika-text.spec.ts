@@ -0,0 +1,238 @@
+import { Wrapper } from '@vue/test-utils'
+import { Text, TroikaTextRenderInfo } from 'troika-three-text'
+import Vue from 'vue'
+import TroikaText, { TroikaTextType } from '../src/troika-text'
+import { flush, mountInScene } from './helpers'
+
+jest.mock('troika-three-text')
+
+interface Scene {
+  wrapper: Wrapper<Vue>
+  text: TroikaTextType
+  /** Sets props of the text, and waits for its flush. */
+  setProps(props: Record<string, unknown>): Promise<void>
+}
+
+/** Mounts a TroikaText in a VueGL scene, and waits for its first sync. */
+async function mountText(initialProps: Record<string, unknown> = {}, listeners: Record<string, () => void> = {}): Promise<Scene> {
+  let props = initialProps
+  const wrapper = await mountInScene((h, data) => [h(TroikaText, { props: data.props, on: listeners, ref: 'text' })], { props })
+  return {
+    wrapper,
+    text: wrapper.vm.$refs.text as TroikaTextType,
+    async setProps(newProps) {
+      props = { ...props, ...newProps }
+      await wrapper.setData({ props })
+      await flush()
+    }
+  }
+}
+
+/** Spies on the layout syncs and the re-render requests of a text. */
+function spyUpdates(text: TroikaTextType): { sync: jest.SpyInstance, emit: jest.SpyInstance } {
+  return { sync: jest.spyOn(text.inst, 'sync'), emit: jest.spyOn(text.vglObject3d, 'emit') }
+}
+
+describe('TroikaText', () => {
+  let scene: Scene
+
+  afterEach(() => {
+    if (scene) scene.wrapper.destroy()
+  })
+
+  it('applies the props to the instance when it is created, and syncs it once', async () => {
+    const sync = jest.spyOn(Text.prototype, 'sync')
+    scene = await mountText({ text: 'Hello', fontSize: 0.5, anchorX: 'center', color: 0xff0000, clipRect: [0, 0, 1, 1] })
+    const { inst } = scene.text
+    expect(inst).toBeInstanceOf(Text)
+    expect(inst).toMatchObject({ text: 'Hello', fontSize: 0.5, anchorX: 'center', color: 0xff0000, clipRect: [0, 0, 1, 1] })
+    expect(sync).toHaveBeenCalledTimes(1)
+    sync.mockRestore()
+  })
+
+  it('adds the instance to the scene', async () => {
+    scene = await mountText({ text: 'Hello' })
+    expect(scene.text.inst.parent).toBeTruthy()
+  })
+
+  describe.each([
+    ['text', 'changed', 'text', 'changed'],
+    ['anchorX', 'right', 'anchorX', 'right'],
+    ['anchorY', 'top-baseline', 'anchorY', 'top-baseline'],
+    ['direction', 'rtl', 'direction', 'rtl'],
+    ['font', 'font.woff', 'font', 'font.woff'],
+    ['fontSize', 0.3, 'fontSize', 0.3],
+    ['letterSpacing', 0.1, 'letterSpacing', 0.1],
+    ['lineHeight', 1.5, 'lineHeight', 1.5],
+    ['maxWidth', 2, 'maxWidth', 2],
+    ['overflowWrap', 'break-word', 'overflowWrap', 'break-word'],
+    ['textAlign', 'center', 'textAlign', 'center'],
+    ['textIndent', 0.2, 'textIndent', 0.2],
+    ['whiteSpace', 'nowrap', 'whiteSpace', 'nowrap'],
+    ['colorRanges', { 0: 'red' }, 'colorRanges', { 0: 'red' }],
+    ['sdfGlyphSize', 32, 'sdfGlyphSize', 32]
+  ])('%s', (prop, value, key, expected) => {
+    it(`sets ${key} and syncs the layout`, async () => {
+      scene = await mountText({ text: 'Hello' })
+      const { sync } = spyUpdates(scene.text)
+      await scene.setProps({ [prop]: value })
+      expect(scene.text.inst[key as keyof Text]).toEqual(expected)
+      expect(sync).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe.each([
+    ['curveRadius', 2, 'curveRadius', 2],
+    ['color', 'blue', 'color', 'blue'],
+    ['outlineWidth', '10%', 'outlineWidth', '10%'],
+    ['outlineColor', 0x00ff00, 'outlineColor', 0x00ff00],
+    ['outlineOpacity', 0.5, 'outlineOpacity', 0.5],
+    ['outlineBlur', 0.01, 'outlineBlur', 0.01],
+    ['outlineOffsetX', 0.02, 'outlineOffsetX', 0.02],
+    ['outlineOffsetY', 0.03, 'outlineOffsetY', 0.03],
+    ['strokeWidth', 0.01, 'strokeWidth', 0.01],
+    ['strokeColor', 'white', 'strokeColor', 'white'],
+    ['strokeOpacity', 0.5, 'strokeOpacity', 0.5],
+    ['fillOpacity', 0.5, 'fillOpacity', 0.5],
+    ['depthOffset', -1, 'depthOffset', -1],
+    ['clipRect', [0, 0, 1, 1], 'clipRect', [0, 0, 1, 1]],
+    ['orientation', '+x-z', 'orientation', '+x-z'],
+    ['glyphGeometryDetail', 4, 'glyphGeometryDetail', 4]
+  ])('%s', (prop, value, key, expected) => {
+    it(`sets ${key} and requests a render without syncing`, async () => {
+      scene = await mountText({ text: 'Hello' })
+      const { sync, emit } = spyUpdates(scene.text)
+      await scene.setProps({ [prop]: value })
+      expect(scene.text.inst[key as keyof Text]).toEqual(expected)
+      expect(sync).not.toHaveBeenCalled()
+      expect(emit).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  it('coalesces the layout changes of a tick into a single sync', async () => {
+    scene = await mountText({ text: 'Hello' })
+    const { sync } = spyUpdates(scene.text)
+    await scene.setProps({ text: 'Bye', fontSize: 0.2, maxWidth: 1, textAlign: 'right' })
+    expect(sync).toHaveBeenCalledTimes(1)
+  })
+
+  it('coalesces the render changes of a tick into a single render', async () => {
+    scene = await mountText({ text: 'Hello' })
+    const { sync, emit } = spyUpdates(scene.text)
+    await scene.setProps({ color: 'red', outlineWidth: 0.01, fillOpacity: 0.5, orientation: '+x-z' })
+    expect(sync).not.toHaveBeenCalled()
+    expect(emit).toHaveBeenCalledTimes(1)
+  })
+
+  it('emits sync-start and sync-complete with the text render info', async () => {
+    const syncStart = jest.fn()
+    const syncComplete = jest.fn()
+    scene = await mountText({ text: 'Hello' }, { 'sync-start': syncStart, 'sync-complete': syncComplete })
+    expect(syncStart).toHaveBeenCalledTimes(1)
+    expect(syncComplete).toHaveBeenCalledWith(scene.text.inst.textRenderInfo)
+    expect(scene.text.textRenderInfo).toBe(scene.text.inst.textRenderInfo)
+    expect(scene.text.bounds).toEqual([0, -0.1, 0.5, 0])
+    expect(scene.text.syncing).toBe(false)
+  })
+
+  it('keeps the text render info out of the reactivity', async () => {
+    scene = await mountText({ text: 'Hello' })
+    expect(Object.isFrozen(scene.text.textRenderInfo)).toBe(true)
+    expect(scene.text.textRenderInfo).not.toHaveProperty('__ob__')
+    // The layout of the run meshes is put together by the component itself.
+    await scene.setProps({ markup: 'Hello <size=2>big</size>' })
+    expect(Object.isFrozen(scene.text.textRenderInfo)).toBe(true)
+    expect(scene.text.textRenderInfo).not.toHaveProperty('__ob__')
+  })
+
+  it('emits pointerleave with no hit when its accessible mirror loses the focus', async () => {
+    const pointerleave = jest.fn()
+    scene = await mountText({ text: 'Hello', accessible: true }, { pointerleave })
+    const blur = new FocusEvent('blur')
+    ;(scene.text.mirror as HTMLElement).dispatchEvent(blur)
+    expect(pointerleave).toHaveBeenCalledWith({ charIndex: -1, lineIndex: -1, textCoords: null, point: null, distance: Infinity, originalEvent: blur })
+  })
+
+  describe('parses the string forms of the props', () => {
+    it.each([
+      ['fontSize', '0.2', 'fontSize', 0.2],
+      ['maxWidth', 'Infinity', 'maxWidth', Infinity],
+      ['anchorX', '0.5', 'anchorX', 0.5],
+      ['anchorY', '25%', 'anchorY', '25%'],
+      ['outlineOpacity', '0.4', 'outlineOpacity', 0.4],
+      ['glyphGeometryDetail', '3', 'glyphGeometryDetail', 3],
+      ['clipRect', '0,0.5,1,2', 'clipRect', [0, 0.5, 1, 2]],
+      ['colorRanges', '0:#f00,5:blue', 'colorRanges', { 0: '#f00', 5: 'blue' }]
+    ])('%s', async (prop, value, key, expected) => {
+      scene = await mountText({ text: 'Hello', [prop]: value })
+      expect(scene.text.inst[key as keyof Text]).toEqual(expected)
+    })
+  })
+
+  it('warns about invalid props, naming the accepted values', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined)
+    const error = jest.spyOn(console, 'error').mockImplementation(() => undefined)
+    scene = await mountText({ text: 'Hello', anchorY: 'centre', orientation: '+x+x', sdfGlyphSize: 48, fontSize: '12px', clipRect: '1px,2,3', colorRanges: { first: 'red' } })
+    const messages = warn.mock.calls.map(([message]) => message)
+    expect(messages).toContainEqual(expect.stringMatching(/"clipRect".*four numbers/))
+    expect(messages).toContainEqual(expect.stringMatching(/"colorRanges".*character indices/))
+    expect(messages).toContainEqual(expect.stringMatching(/"fontSize".*a number/))
+    expect(messages).toContainEqual(expect.stringMatching(/"anchorY".*'top-baseline'/))
+    expect(messages).toContainEqual(expect.stringMatching(/"orientation"/))
+    expect(messages).toContainEqual(expect.stringMatching(/"sdfGlyphSize".*power of two/))
+    warn.mockRestore()
+    error.mockRestore()
+  })
+
+  it('disposes of the instance when destroyed, dropping any pending sync', async () => {
+    scene = await mountText({ text: 'Hello' })
+    const { inst } = scene.text
+    const dispose = jest.spyOn(inst, 'dispose')
+    const { sync } = spyUpdates(scene.text)
+    scene.text.requestSync()
+    scene.wrapper.destroy()
+    await flush()
+    expect(dispose).toHaveBeenCalledTimes(1)
+    expect(sync).not.toHaveBeenCalled()
+    expect(inst.parent).toBeNull()
+  })
+
+  it('wraps run meshes at maxWidth by splitting them', async () => {
+    scene = await mountText({ markup: 'Hello <size=2>big</size> world', maxWidth: 1 })
+    const runMeshes = scene.text.runMeshes as Text[]
+    expect(runMeshes.map(({ text }) => text)).toEqual(['Hello ', 'big', ' ', 'world'])
+    const [minX, minY, maxX] = (scene.text.textRenderInfo as TroikaTextRenderInfo).blockBounds
+    expect(maxX - minX).toBeLessThanOrEqual(1)
+    expect(minY).toBeCloseTo(-0.4)
+    await scene.setProps({ maxWidth: Infinity })
+    expect((scene.text.runMeshes as Text[]).map(({ text }) => text)).toEqual(['Hello ', 'big', ' world'])
+  })
+
+  it('indents and justifies the lines of run meshes', async () => {
+    scene = await mountText({ markup: 'Hello <b>big</b> wide world', maxWidth: 1.5, textIndent: 0.2 })
+    const positions = (): [string, number, number][] => (scene.text.runMeshes as Text[]).map(({ text, position }) => [text, +position.x.toFixed(3), +position.y.toFixed(3)])
+    expect(positions()).toEqual([['Hello ', 0.2, 0], ['big', 0.8, 0], [' ', 1.1, 0], ['wide world', 0, -0.1]])
+    // The spaces of the soft-wrapped line widen to fill maxWidth, and the last line isn't justified.
+    await scene.setProps({ textIndent: 0, textAlign: 'justify' })
+    expect(positions()).toEqual([['Hello ', 0, 0], ['big', 0.65, 0], [' ', 0.95, 0], ['wide ', 1.1, 0], ['world', 0, -0.1]])
+  })
+
+  it('leaves the unstyled runs the color of the material when color is null', async () => {
+    scene = await mountText({ markup: 'Hello <size=2><color=red>big</color></size> world' })
+    const runMeshes = scene.text.runMeshes as Text[]
+    expect(runMeshes.map(({ colorRanges }) => colorRanges)).toEqual([null, { 0: 'red' }, null])
+    expect(runMeshes[0].color).toBeNull()
+  })
+
+  it('renders styled markup with run meshes, disposed of when no longer needed', async () => {
+    scene = await mountText({ markup: 'Hello <size=2>big</size> world' })
+    const runMeshes = scene.text.runMeshes as Text[]
+    expect(runMeshes.map(({ text }) => text)).toEqual(['Hello ', 'big', ' world'])
+    expect(scene.text.inst.text).toBe('')
+    const disposals = runMeshes.map((mesh) => jest.spyOn(mesh, 'dispose'))
+    await scene.setProps({ markup: null, text: 'Plain' })
+    disposals.forEach((dispose) => expect(dispose).toHaveBeenCalledTimes(1))
+    expect(scene.text.runMeshes).toBeUndefined()
+    expect(scene.text.inst.text).toBe('Plain')
+  })
+})
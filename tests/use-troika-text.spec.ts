@@ -0,0 +1,64 @@
+import { mount } from '@vue/test-utils'
+import { Text } from 'troika-three-text'
+import { defineComponent, reactive } from 'vue'
+import { TroikaTextPropValues, UseTroikaText, UseTroikaTextOptions, useTroikaText } from '../src/use-troika-text'
+import { flush } from './helpers'
+
+jest.mock('troika-three-text')
+
+/** Calls `useTroikaText` in the setup of a component, and waits for its first sync. */
+async function setupText(props: TroikaTextPropValues, options: UseTroikaTextOptions = {}): Promise<{ text: UseTroikaText, destroy(): void }> {
+  let text: UseTroikaText | undefined
+  const wrapper = mount(defineComponent({
+    name: 'TextSetup',
+    setup() {
+      text = useTroikaText(props, options)
+      return () => null
+    }
+  }))
+  await flush()
+  return { text: text as UseTroikaText, destroy: () => wrapper.destroy() }
+}
+
+describe('useTroikaText', () => {
+  it('applies the props and the defaults of the others, and syncs once', async () => {
+    const sync = jest.spyOn(Text.prototype, 'sync')
+    const { text, destroy } = await setupText({ text: 'Hello', anchorX: '0.5', clipRect: '0,0,1,1' })
+    expect(text.inst).toMatchObject({ text: 'Hello', anchorX: 0.5, clipRect: [0, 0, 1, 1], fontSize: 0.1, strokeColor: 0x808080 })
+    expect(sync).toHaveBeenCalledTimes(1)
+    expect(text.textRenderInfo.value).toBe(text.inst.textRenderInfo)
+    expect(text.syncing.value).toBe(false)
+    sync.mockRestore()
+    destroy()
+  })
+
+  it('syncs or renders on changes as classified by the shared props', async () => {
+    const props = reactive<Record<string, unknown>>({ text: 'Hello', color: null, maxWidth: Infinity })
+    const onRender = jest.fn()
+    const { text, destroy } = await setupText(props, { onRender })
+    const sync = jest.spyOn(text.inst, 'sync')
+    onRender.mockClear()
+    props.color = 'red'
+    await flush()
+    expect(text.inst.color).toBe('red')
+    expect(sync).not.toHaveBeenCalled()
+    expect(onRender).toHaveBeenCalledTimes(1)
+    props.text = 'Bye'
+    props.maxWidth = '2'
+    await flush()
+    expect(text.inst).toMatchObject({ text: 'Bye', maxWidth: 2 })
+    expect(sync).toHaveBeenCalledTimes(1)
+    destroy()
+  })
+
+  it('disposes of the instance when unmounted, dropping any pending sync', async () => {
+    const { text, destroy } = await setupText({ text: 'Hello' })
+    const dispose = jest.spyOn(text.inst, 'dispose')
+    const sync = jest.spyOn(text.inst, 'sync')
+    text.requestSync()
+    destroy()
+    await flush()
+    expect(dispose).toHaveBeenCalledTimes(1)
+    expect(sync).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,70 @@
+import { mount } from '@vue/test-utils'
+import { CreateElement, VNode } from 'vue'
+import { VglNamespace } from 'vue-gl'
+import { getFontNamespace } from '../src/font-namespace'
+import VglTroikaFont, { VglTroikaFontType } from '../src/vgl-troika-font'
+import { flush } from './helpers'
+
+jest.mock('troika-three-text')
+
+/** Mounts a VglTroikaFont in a VglNamespace, with the listeners of its events. */
+function mountFont(props: Record<string, unknown>) {
+  const load = jest.fn()
+  const error = jest.fn()
+  const wrapper = mount({
+    render: (h: CreateElement): VNode => h(VglNamespace, [
+      h(VglTroikaFont, { props: { name: 'sans', src: '/sans.woff', ...props }, on: { load, error }, ref: 'font' })
+    ])
+  })
+  return { wrapper, font: wrapper.vm.$refs.font as VglTroikaFontType, load, error }
+}
+
+describe('VglTroikaFont', () => {
+  const fetch = jest.fn()
+
+  beforeEach(() => {
+    window.fetch = fetch
+  })
+
+  afterEach(() => {
+    fetch.mockReset()
+  })
+
+  it('registers the font by name, apart from the geometries', async () => {
+    fetch.mockResolvedValue({ ok: true })
+    const { wrapper, font, load } = mountFont({})
+    await flush()
+    const { geometries } = font.vglNamespace
+    expect(getFontNamespace(geometries).get('sans')).toBe(font.inst)
+    expect(geometries.get('sans')).toBeUndefined()
+    expect(geometries.get('troika-font:sans')).toBeUndefined()
+    expect(font.inst.status).toBe('loaded')
+    expect(load).toHaveBeenCalledTimes(1)
+    wrapper.destroy()
+    expect(getFontNamespace(geometries).get('sans')).toBeUndefined()
+  })
+
+  it('emits error when the font file fails to load, which troika would hide behind its fallback', async () => {
+    fetch.mockResolvedValue({ ok: false, status: 404, statusText: 'Not Found' })
+    const { wrapper, font, load, error } = mountFont({})
+    await flush()
+    expect(font.inst.status).toBe('error')
+    expect(error).toHaveBeenCalledWith(expect.objectContaining({ message: expect.stringMatching(/404/) }))
+    expect(load).not.toHaveBeenCalled()
+    wrapper.destroy()
+  })
+
+  it('loads a font arriving after its timeout', async () => {
+    let respond: (response: unknown) => void = () => undefined
+    fetch.mockReturnValue(new Promise((resolve) => { respond = resolve }))
+    const { wrapper, font, load, error } = mountFont({ timeout: '10' })
+    await flush(20)
+    expect(font.inst.status).toBe('error')
+    expect(error).toHaveBeenCalledWith(expect.objectContaining({ message: expect.stringMatching(/Timed out/) }))
+    respond({ ok: true })
+    await flush()
+    expect(font.inst).toMatchObject({ status: 'loaded', error: null })
+    expect(load).toHaveBeenCalledTimes(1)
+    wrapper.destroy()
+  })
+})